@@ -137,8 +137,18 @@
                         if (currentWeek !== weekNum) {
                             currentWeek = weekNum;
                             const weekCell = document.createElement('div');
-                            weekCell.classList.add('week-number');
+                            weekCell.classList.add('week-number', 'week-link');
                             weekCell.textContent = weekNum;
+                            weekCell.title = `Review week ${weekNum}`;
+                            
+                            // Open the week's review note on click
+                            const weekStart = formatDate(date);
+                            weekCell.addEventListener('click', () => {
+                                vscode.postMessage({
+                                    command: 'weekClicked',
+                                    date: weekStart
+                                });
+                            });
                             calendar.appendChild(weekCell);
                         }
                     }
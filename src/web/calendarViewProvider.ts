@@ -1,12 +1,15 @@
 import * as vscode from 'vscode';
 import { createNote, checkNotesExist } from './fileManager';
+import { createWeeklyReview } from './tasks/taskWeeklyReview';
+import { TaskScanner } from './tasks/taskScanner';
 
 export class CalendarViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly _context: vscode.ExtensionContext
+        private readonly _context: vscode.ExtensionContext,
+        private readonly taskScanner: TaskScanner
     ) { }
 
     private getErrorMessage(error: unknown): string {
@@ -42,6 +45,9 @@ export class CalendarViewProvider implements vscode.WebviewViewProvider {
                                 // After creating a note, tell calendar to refresh indicators
                                 webviewView.webview.postMessage({ command: 'refreshIndicators' });
                                 break;
+                            case 'weekClicked':
+                                await createWeeklyReview(this.taskScanner, message.date, this._context);
+                                break;
                             case 'checkDates':
                                 const existingNotes = await checkNotesExist(message.dates);
                                 webviewView.webview.postMessage({ 
@@ -1,4 +1,16 @@
 import * as vscode from 'vscode';
+import { TaskDateFormat } from '../tasks/dateFormatter';
+import { MarkerOptions } from '../tasks/taskMarker';
+
+/**
+ * What happens to open subtasks when their parent task is completed
+ */
+export type SubtaskCompletionAction = 'ask' | 'complete' | 'roll' | 'leave';
+
+/**
+ * How task markers are decorated in the editor
+ */
+export type TaskDecorationMode = 'off' | 'color' | 'badge';
 
 /**
  * Service to centralize access to extension configuration
@@ -49,6 +61,18 @@ export class ConfigService {
         }
     }
     
+    /**
+     * Check whether a file is a markdown note inside the journal folder
+     */
+    public isJournalNote(uri: vscode.Uri): boolean {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+            return false;
+        }
+        
+        const journalPath = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, this.getJournalFolder()).path;
+        return uri.path.startsWith(`${journalPath}/`) && uri.path.endsWith('.md');
+    }
+    
     /**
      * Get full file path for a note by date
      */
@@ -87,6 +111,78 @@ export class ConfigService {
         return config.get<number>('taskCacheTimeout') || 30000;
     }
     
+    /**
+     * Get the date form used when writing new task markers
+     */
+    public getTaskDateFormat(): TaskDateFormat {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<TaskDateFormat>('taskDateFormat') || 'YYMMDD';
+    }
+    
+    /**
+     * Get what to do with open subtasks when their parent is completed
+     */
+    public getSubtaskCompletionAction(): SubtaskCompletionAction {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<SubtaskCompletionAction>('subtasksOnComplete') || 'ask';
+    }
+    
+    /**
+     * Get the options for reading task lines, such as whether checkboxes count as tasks
+     */
+    public getMarkerOptions(): MarkerOptions {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return { checkboxes: config.get<boolean>('checkboxTasks') || false };
+    }
+    
+    /**
+     * Get whether iCalendar exports include daily notes as all-day events
+     */
+    public getIcsIncludeNotes(): boolean {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<boolean>('icsIncludeNotes') ?? true;
+    }
+    
+    /**
+     * Get whether due date phrases such as "next friday" are rewritten as dates on save
+     */
+    public getNormalizeDatesOnSave(): boolean {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<boolean>('normalizeDatesOnSave') ?? true;
+    }
+    
+    /**
+     * Get whether task lines show CodeLens actions
+     */
+    public getTaskCodeLens(): boolean {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<boolean>('taskCodeLens') ?? true;
+    }
+    
+    /**
+     * Get whether captured tasks link back to the file they were captured from
+     */
+    public getCaptureBacklink(): boolean {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<boolean>('captureBacklink') ?? true;
+    }
+    
+    /**
+     * Get whether malformed task lines are reported as problems
+     */
+    public getTaskDiagnostics(): boolean {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<boolean>('taskDiagnostics') ?? true;
+    }
+    
+    /**
+     * Get how task markers are decorated in journal notes
+     */
+    public getTaskDecorationMode(): TaskDecorationMode {
+        const config = vscode.workspace.getConfiguration('calmdown');
+        return config.get<TaskDecorationMode>('taskDecorations') || 'color';
+    }
+    
     /**
      * Format date as YYYY-MM-DD
      */
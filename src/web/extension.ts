@@ -1,11 +1,41 @@
 import * as vscode from 'vscode';
 import { CalendarViewProvider } from './calendarViewProvider';
 import { TasksViewProvider } from './taskViewProvider';
+import { TaskScanner } from './tasks/taskScanner';
 import { toggleTaskState, rollTasksToToday } from './tasks/taskManager';
+import { migrateTaskDates } from './tasks/taskDateMigration';
+import { addTaskBlocker } from './tasks/taskNavigator';
+import { convertJournalTaskSyntax, convertNoteTaskSyntax } from './tasks/taskSyntaxConversion';
+import { exportTodoTxt, importTodoTxt } from './tasks/taskTodoTxt';
+import { exportICalendar, importICalendar } from './tasks/taskICalendar';
+import { exportTasks } from './tasks/taskExport';
+import { createWeeklyReview } from './tasks/taskWeeklyReview';
+import { TaskCodeLensProvider } from './tasks/taskCodeLens';
+import { TaskDecorator } from './tasks/taskDecorations';
+import { TaskCompletionProvider } from './tasks/taskCompletion';
+import { TaskHoverProvider } from './tasks/taskHover';
+import { TaskDiagnostics, TaskProblemActionProvider } from './tasks/taskDiagnostics';
+import { captureTask } from './tasks/taskCapture';
+import { TaskSymbolProvider, goToTask } from './tasks/taskQuickPick';
+import { BacklinksProvider, NoteLinkCompletionProvider, NoteLinkProvider, openNoteLink } from './tasks/noteLinkProviders';
+import { NoteLinkKind } from './tasks/noteLinks';
+import { normalizeNoteTaskDates, normalizeTaskDatesOnSave } from './tasks/taskDateNormalizer';
+import {
+    changeTaskDifficulty,
+    changeTaskPriority,
+    postponeTask,
+    rescheduleTask,
+    rollTaskToToday,
+    toggleTaskAt
+} from './tasks/taskEditing';
 
 export function activate(context: vscode.ExtensionContext) {
+    // One task scanner for the whole extension, so every feature shares its cache
+    const taskScanner = new TaskScanner();
+    context.subscriptions.push(taskScanner);
+
     // Register both webview providers in the container
-    const calendarProvider = new CalendarViewProvider(context.extensionUri, context);
+    const calendarProvider = new CalendarViewProvider(context.extensionUri, context, taskScanner);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
             'calmdown.calendarView',
@@ -13,7 +43,7 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
     
-    const tasksProvider = new TasksViewProvider(context.extensionUri, context);
+    const tasksProvider = new TasksViewProvider(context.extensionUri, context, taskScanner);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
             'calmdown.tasksView',
@@ -30,12 +60,141 @@ export function activate(context: vscode.ExtensionContext) {
     
     // Register the toggle task command
     context.subscriptions.push(
-        vscode.commands.registerCommand('calmdown.toggleTaskState', toggleTaskState)
+        vscode.commands.registerCommand('calmdown.toggleTaskState', () => toggleTaskState(taskScanner))
     );
 
     // Register the roll tasks command
     context.subscriptions.push(
-        vscode.commands.registerCommand('calmdown.rollTasks', rollTasksToToday)
+        vscode.commands.registerCommand('calmdown.rollTasks', () => rollTasksToToday(taskScanner))
+    );
+
+    // Register the task date migration command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.migrateTaskDates', () => migrateTaskDates(taskScanner))
+    );
+
+    // Register the command for adding a task dependency
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.addTaskBlocker', () => addTaskBlocker(taskScanner))
+    );
+
+    // Register the commands for converting between markers and checkboxes
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.convertNoteTaskSyntax', convertNoteTaskSyntax),
+        vscode.commands.registerCommand('calmdown.convertJournalTaskSyntax', () => convertJournalTaskSyntax(taskScanner))
+    );
+
+    // Register the todo.txt import and export commands
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.exportTodoTxt', () => exportTodoTxt(taskScanner)),
+        vscode.commands.registerCommand('calmdown.importTodoTxt', () => importTodoTxt(taskScanner))
+    );
+
+    // Register the iCalendar import and export commands
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.exportICalendar', () => exportICalendar(taskScanner)),
+        vscode.commands.registerCommand('calmdown.importICalendar', importICalendar)
+    );
+
+    // Register the task export command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.exportTasks', () => exportTasks(taskScanner))
+    );
+
+    // Register the weekly review command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.createWeeklyReview',
+            (dateString?: string) => createWeeklyReview(taskScanner, dateString, context))
+    );
+
+    // Register the CodeLens actions on task lines
+    const codeLensProvider = new TaskCodeLensProvider();
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider({ language: 'markdown' }, codeLensProvider),
+        vscode.commands.registerCommand('calmdown.toggleTaskAt',
+            (uri?: vscode.Uri, line?: number) => toggleTaskAt(taskScanner, uri, line)),
+        vscode.commands.registerCommand('calmdown.rescheduleTask', rescheduleTask),
+        vscode.commands.registerCommand('calmdown.increaseTaskPriority',
+            (uri?: vscode.Uri, line?: number) => changeTaskPriority(1, uri, line)),
+        vscode.commands.registerCommand('calmdown.decreaseTaskPriority',
+            (uri?: vscode.Uri, line?: number) => changeTaskPriority(-1, uri, line)),
+        vscode.commands.registerCommand('calmdown.rollTaskToToday', rollTaskToToday)
+    );
+
+    // Register keyboard commands that edit the fields of the selected tasks
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.increaseTaskDifficulty',
+            (uri?: vscode.Uri, line?: number) => changeTaskDifficulty(1, uri, line)),
+        vscode.commands.registerCommand('calmdown.decreaseTaskDifficulty',
+            (uri?: vscode.Uri, line?: number) => changeTaskDifficulty(-1, uri, line)),
+        vscode.commands.registerCommand('calmdown.postponeTaskDay',
+            (uri?: vscode.Uri, line?: number) => postponeTask(1, uri, line)),
+        vscode.commands.registerCommand('calmdown.postponeTaskWeek',
+            (uri?: vscode.Uri, line?: number) => postponeTask(7, uri, line))
+    );
+
+    // Decorate task markers in journal notes
+    context.subscriptions.push(new TaskDecorator());
+
+    // Register completions for task markers, due dates, tags and people
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            { language: 'markdown' },
+            new TaskCompletionProvider(taskScanner),
+            '=', ' ', ':', '#', '@'
+        )
+    );
+
+    // Register hover cards for tasks and note dates
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider({ language: 'markdown' }, new TaskHoverProvider(taskScanner))
+    );
+
+    // Rewrite due date phrases as dates, on command and on save
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.normalizeNoteTaskDates', normalizeNoteTaskDates),
+        vscode.workspace.onWillSaveTextDocument(normalizeTaskDatesOnSave)
+    );
+
+    // Report malformed task lines, with quick fixes and a journal-wide check
+    const taskDiagnostics = new TaskDiagnostics(taskScanner);
+    context.subscriptions.push(
+        taskDiagnostics,
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'markdown' },
+            new TaskProblemActionProvider(),
+            { providedCodeActionKinds: TaskProblemActionProvider.providedCodeActionKinds }
+        ),
+        vscode.commands.registerCommand('calmdown.checkTaskProblems', () => taskDiagnostics.checkJournal())
+    );
+
+    // Register quick capture into today's note
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.captureTask', () => captureTask(context))
+    );
+
+    // Register task search, as a quick pick and as workspace symbols
+    const taskSymbolProvider = new TaskSymbolProvider(taskScanner);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('calmdown.goToTask', () => goToTask(taskScanner)),
+        vscode.languages.registerWorkspaceSymbolProvider(taskSymbolProvider),
+        taskSymbolProvider
+    );
+
+    // Register [[YYYY-MM-DD]] and [[Week-NN]] links between notes, and their backlinks
+    const noteLinkProvider = new NoteLinkProvider();
+    const backlinksProvider = new BacklinksProvider(taskScanner);
+    const backlinksView = vscode.window.createTreeView('calmdown.backlinks', { treeDataProvider: backlinksProvider });
+    backlinksProvider.attach(backlinksView);
+    context.subscriptions.push(
+        vscode.languages.registerDocumentLinkProvider({ language: 'markdown' }, noteLinkProvider),
+        vscode.languages.registerDefinitionProvider({ language: 'markdown' }, noteLinkProvider),
+        vscode.languages.registerCompletionItemProvider({ language: 'markdown' }, new NoteLinkCompletionProvider(taskScanner), '['),
+        vscode.commands.registerCommand('calmdown.openNoteLink',
+            (kind: NoteLinkKind, date: string) => openNoteLink(taskScanner, kind, date, context)),
+        backlinksProvider,
+        backlinksView
     );
 }
 
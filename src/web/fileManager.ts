@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { parseNoteDate } from './tasks/dateFormatter';
 
 export async function ensureTemplatesExist(context?: vscode.ExtensionContext): Promise<vscode.Uri> {
     try {
@@ -89,55 +90,41 @@ export async function getTemplateContent(context?: vscode.ExtensionContext, temp
     }
 }
 
-export async function createNote(dateString: string, context?: vscode.ExtensionContext): Promise<void> {
+/**
+ * Create the daily note for a date from the template, or open it if it exists.
+ * Pass `reveal: false` to create the note without showing it.
+ * Returns the note's URI, or undefined if it could not be created.
+ */
+export async function createNote(
+    dateString: string,
+    context?: vscode.ExtensionContext,
+    options: { reveal?: boolean } = {}
+): Promise<vscode.Uri | undefined> {
+    const reveal = options.reveal ?? true;
     try {
         // Validate date string (format: YYYY-MM-DD)
         if (!isValidDateString(dateString)) {
             vscode.window.showErrorMessage(`Invalid date format: ${dateString}. Expected format is YYYY-MM-DD.`);
-            return;
+            return undefined;
         }
 
         // Ensure templates exist
         await ensureTemplatesExist(context);
 
-        // Get configuration
-        const config = vscode.workspace.getConfiguration('calmdown');
-        const baseDirectory = config.get<string>('folderPath') || 'Journal';
-        const fileNameFormat = config.get<string>('fileNameFormat') || 'YYYY-MM-DD';
-        
-        // Parse the date from the dateString (format: YYYY-MM-DD)
-        const date = new Date(dateString);
-        const year = date.getFullYear().toString();
-        
-        // Format month as MM-MonthName (e.g., 01-January)
-        const monthNumber = (date.getMonth() + 1).toString().padStart(2, '0');
-        const monthName = date.toLocaleString('en-US', { month: 'long' });
-        const monthFolder = `${monthNumber}-${monthName}`;
-        
-        // Calculate week number (always 2 digits)
-        const weekNumber = getISOWeek(date).toString().padStart(2, '0');
-        
         // Format file name based on configuration
-        let fileName = dateString + '.md';
-        if (fileNameFormat !== 'YYYY-MM-DD') {
-            // Apply custom format if configured
-            fileName = formatDateString(date, fileNameFormat) + '.md';
-        }
+        const fileName = getNoteFileName(dateString);
         
         // Determine file path
         if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
             vscode.window.showErrorMessage('No workspace folder is open. Please open a folder to save notes.');
-            return;
+            return undefined;
         }
         
         const workspaceFolder = vscode.workspace.workspaceFolders[0].uri;
         
-        // Build path segments
-        const pathSegments = [baseDirectory, year, monthFolder, `Week-${weekNumber}`];
-        
         // Create folderUri by joining path segments one by one
         let folderUri = workspaceFolder;
-        for (const segment of pathSegments) {
+        for (const segment of getNoteFolderSegments(dateString)) {
             if (segment && segment.length > 0) {
                 folderUri = vscode.Uri.joinPath(folderUri, segment);
                 try {
@@ -155,8 +142,10 @@ export async function createNote(dateString: string, context?: vscode.ExtensionC
         try {
             await vscode.workspace.fs.stat(filePath);
             // File exists, open it
-            const document = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(document);
+            if (reveal) {
+                const document = await vscode.workspace.openTextDocument(filePath);
+                await vscode.window.showTextDocument(document);
+            }
         } catch {
             // File doesn't exist, create it
             // Get template content
@@ -172,12 +161,62 @@ export async function createNote(dateString: string, context?: vscode.ExtensionC
             const encoder = new TextEncoder();
             await vscode.workspace.fs.writeFile(filePath, encoder.encode(initialContent));
             
-            const document = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(document);
+            if (reveal) {
+                const document = await vscode.workspace.openTextDocument(filePath);
+                await vscode.window.showTextDocument(document);
+            }
         }
+        return filePath;
     } catch (err) {
         vscode.window.showErrorMessage(`Error creating note: ${err}`);
+        return undefined;
+    }
+}
+
+/**
+ * Get where the note for a date lives, whether or not it exists yet.
+ * Returns undefined if no workspace folder is open.
+ */
+export function getNoteUri(dateString: string): vscode.Uri | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (!workspaceFolder) {
+        return undefined;
+    }
+    return vscode.Uri.joinPath(workspaceFolder, ...getNoteFolderSegments(dateString), getNoteFileName(dateString));
+}
+
+/**
+ * Get the file name of the note for a date, e.g. 2025-03-14.md
+ */
+function getNoteFileName(dateString: string): string {
+    const fileNameFormat = vscode.workspace.getConfiguration('calmdown').get<string>('fileNameFormat') || 'YYYY-MM-DD';
+    if (fileNameFormat === 'YYYY-MM-DD') {
+        return `${dateString}.md`;
     }
+    // Apply custom format if configured
+    return formatDateString(parseNoteDate(dateString), fileNameFormat) + '.md';
+}
+
+/**
+ * Get the folders the notes for a date live in, e.g. Journal/2025/03-March/Week-10
+ */
+export function getNoteFolderSegments(dateString: string): string[] {
+    const baseDirectory = vscode.workspace.getConfiguration('calmdown').get<string>('folderPath') || 'Journal';
+    
+    // Parse the date from the dateString (format: YYYY-MM-DD) as a local date;
+    // new Date() would read it as UTC, a day early west of Greenwich
+    const date = parseNoteDate(dateString);
+    const year = date.getFullYear().toString();
+    
+    // Format month as MM-MonthName (e.g., 01-January)
+    const monthNumber = (date.getMonth() + 1).toString().padStart(2, '0');
+    const monthName = date.toLocaleString('en-US', { month: 'long' });
+    const monthFolder = `${monthNumber}-${monthName}`;
+    
+    // Calculate week number (always 2 digits)
+    const weekNumber = getISOWeek(date).toString().padStart(2, '0');
+    
+    return [baseDirectory, year, monthFolder, `Week-${weekNumber}`].filter(segment => segment.length > 0);
 }
 
 // Validate date string format (YYYY-MM-DD)
@@ -188,10 +227,7 @@ function isValidDateString(dateString: string): boolean {
     }
     
     // Check if it's a valid date
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) {
-        return false;
-    }
+    const date = parseNoteDate(dateString);
     
     // Check if the formatted date matches the input
     // This ensures dates like "2025-02-31" are rejected
@@ -225,10 +261,6 @@ function getISOWeek(date: Date): number {
 
 export async function checkNotesExist(dates: string[]): Promise<string[]> {
     try {
-        // Get configuration
-        const config = vscode.workspace.getConfiguration('calmdown');
-        const baseDirectory = config.get<string>('folderPath') || 'Journal';
-        
         if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
             return [];
         }
@@ -238,22 +270,8 @@ export async function checkNotesExist(dates: string[]): Promise<string[]> {
         
         // Check each date
         for (const dateString of dates) {
-            // Parse the date
-            const date = new Date(dateString);
-            const year = date.getFullYear().toString();
-            
-            // Format month folder
-            const monthNumber = (date.getMonth() + 1).toString().padStart(2, '0');
-            const monthName = date.toLocaleString('en-US', { month: 'long' });
-            const monthFolder = `${monthNumber}-${monthName}`; 
-            
-            // Get week number
-            const weekNumber = getISOWeek(date).toString().padStart(2, '0');
-            
             // Build path to check
-            const relativePath = [baseDirectory, year, monthFolder, `Week-${weekNumber}`, `${dateString}.md`]
-                .filter(segment => segment.length > 0)
-                .join('/');
+            const relativePath = [...getNoteFolderSegments(dateString), `${dateString}.md`].join('/');
             
             const filePath = vscode.Uri.joinPath(workspaceFolder, relativePath);
             
@@ -1,17 +1,18 @@
 import * as vscode from 'vscode';
 import { TaskScanner } from './tasks/taskScanner';
-import { Task } from './tasks/taskModel';
+import { Task, getNoteDate } from './tasks/taskModel';
+import { describeTaskHistory, getTaskHistory } from './tasks/taskHistory';
+import { describeRecurrence, parseRecurrence } from './tasks/taskRecurrence';
+import { navigateToTask, toggleTask } from './tasks/taskNavigator';
+import { getOpenBlockers } from './tasks/taskDependencies';
 
 export class TasksViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
-    private taskScanner: TaskScanner;
-    
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly _context: vscode.ExtensionContext
+        private readonly _context: vscode.ExtensionContext,
+        private readonly taskScanner: TaskScanner
     ) {
-        this.taskScanner = new TaskScanner();
-        
         // Register command to refresh tasks
         this._context.subscriptions.push(
             vscode.commands.registerCommand('calmdown.refreshTasks', () => {
@@ -33,17 +34,36 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
             this._view.webview.postMessage({ command: 'setLoading', value: true });
             
             try {
-                const tasks = await this.taskScanner.getOpenTasks();
+                const allTasks = await this.taskScanner.getAllTasks();
+                const tasks = allTasks.filter(task => task.status === 'TODO');
                 this._view.webview.postMessage({ 
                     command: 'updateTasks',
-                    tasks: tasks.map(task => ({
-                        text: task.text,
-                        priority: task.priority,
-                        difficulty: task.difficulty,
-                        date: task.dueDate,
-                        filePath: task.filePath,
-                        line: task.line
-                    }))
+                    tasks: tasks.map(task => {
+                        const history = getTaskHistory(task, allTasks);
+                        const recurrence = task.recurrence ? parseRecurrence(task.recurrence) : null;
+                        const parent = allTasks.find(candidate =>
+                            candidate.filePath === task.filePath && candidate.line === task.parentLine
+                        );
+                        return {
+                            text: task.text,
+                            priority: task.priority,
+                            difficulty: task.difficulty,
+                            dueDate: task.dueDate,
+                            createdDate: task.createdDate,
+                            tags: task.tags,
+                            contexts: task.contexts,
+                            projects: task.projects,
+                            waitingFor: task.waitingFor,
+                            filePath: task.filePath,
+                            line: task.line,
+                            parentText: parent ? parent.text : '',
+                            progress: task.progress ? `${task.progress.done}/${task.progress.total} done` : '',
+                            recurrence: recurrence ? describeRecurrence(recurrence) : '',
+                            blocked: !!task.blocked,
+                            blockers: task.blocked ? getOpenBlockers(task, allTasks).map(blocker => blocker.text) : [],
+                            history: history.length > 1 ? describeTaskHistory(history) : ''
+                        };
+                    })
                 });
             } catch (error) {
                 console.error("Error refreshing tasks:", error);
@@ -57,6 +77,45 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Look up a scanned task from the fields the webview sends back
+     */
+    private async findTask(filePath: string, line: number): Promise<Task | undefined> {
+        const allTasks = await this.taskScanner.getAllTasks();
+        const task = allTasks.find(candidate => candidate.filePath === filePath && candidate.line === line);
+        if (!task) {
+            vscode.window.showWarningMessage('Task not found. Try refreshing the task list.');
+        }
+        return task;
+    }
+    
+    /**
+     * Let the user pick an occurrence of a task from its rollover history and jump to it
+     */
+    private async showTaskHistory(filePath: string, line: number): Promise<void> {
+        const task = await this.findTask(filePath, line);
+        if (!task) {
+            return;
+        }
+        
+        const allTasks = await this.taskScanner.getAllTasks();
+        const history = getTaskHistory(task, allTasks);
+        const items = history.map(entry => ({
+            label: getNoteDate(entry.filePath) || entry.filePath,
+            description: entry.status,
+            detail: entry.text,
+            task: entry
+        }));
+        
+        const selected = await vscode.window.showQuickPick(items, {
+            title: describeTaskHistory(history),
+            placeHolder: 'Select a note to open'
+        });
+        if (selected) {
+            await navigateToTask(selected.task);
+        }
+    }
+
     public async resolveWebviewView(
         webviewView: vscode.WebviewView,
         context: vscode.WebviewViewResolveContext,
@@ -87,16 +146,23 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                             break;
                             
                         case 'openTask':
-                            const task: Task = {
-                                text: message.task.text,
-                                priority: message.task.priority, 
-                                difficulty: message.task.difficulty,
-                                dueDate: message.task.date,
-                                filePath: message.task.filePath,
-                                line: message.task.line,
-                                status: 'TODO'
-                            };
-                            await this.taskScanner.navigateToTask(task);
+                            const task = await this.findTask(message.task.filePath, message.task.line);
+                            if (task) {
+                                await navigateToTask(task);
+                            }
+                            break;
+                            
+                        case 'toggleTask': {
+                            const task = await this.findTask(message.task.filePath, message.task.line);
+                            if (task) {
+                                await toggleTask(task, this.taskScanner);
+                                await this.refreshTasks();
+                            }
+                            break;
+                        }
+                            
+                        case 'showHistory':
+                            await this.showTaskHistory(message.task.filePath, message.task.line);
                             break;
                     }
                 },
@@ -157,6 +223,48 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                         gap: 4px;
                     }
                     
+                    .toolbar {
+                        display: flex;
+                        align-items: center;
+                        gap: 4px;
+                        font-size: 11px;
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    
+                    .filter {
+                        width: 100%;
+                        box-sizing: border-box;
+                        margin-top: 6px;
+                        padding: 3px 6px;
+                        background: var(--vscode-input-background);
+                        color: var(--vscode-input-foreground);
+                        border: 1px solid var(--vscode-input-border, transparent);
+                    }
+                    
+                    .group-heading {
+                        margin-top: 10px;
+                        padding: 4px 0;
+                        font-weight: bold;
+                        font-size: 11px;
+                        text-transform: uppercase;
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    
+                    .toolbar input[type="checkbox"] {
+                        margin: 0 0 0 4px;
+                    }
+                    
+                    .task-item.blocked {
+                        opacity: 0.5;
+                    }
+                    
+                    .toolbar select {
+                        background: var(--vscode-dropdown-background);
+                        color: var(--vscode-dropdown-foreground);
+                        border: 1px solid var(--vscode-dropdown-border);
+                        font-size: 11px;
+                    }
+                    
                     .refresh-btn, .roll-btn {
                         background: var(--vscode-button-background);
                         color: var(--vscode-button-foreground);
@@ -225,6 +333,26 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                         font-size: 10px;
                     }
                     
+                    .task-parent {
+                        font-size: 10px;
+                        color: var(--vscode-descriptionForeground);
+                    }
+                    
+                    .task-toggle {
+                        float: left;
+                        margin: 1px 6px 0 0;
+                        cursor: pointer;
+                    }
+                    
+                    .task-history {
+                        text-decoration: underline dotted;
+                        cursor: pointer;
+                    }
+                    
+                    .task-history:hover {
+                        color: var(--vscode-textLink-activeForeground);
+                    }
+                    
                     .priority-1 { color: var(--vscode-editorInfo-foreground); }
                     .priority-2 { color: var(--vscode-editorWarning-foreground); }
                     .priority-3 { color: var(--vscode-editorError-foreground); }
@@ -252,6 +380,27 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                     </div>
                 </div>
                 
+                <div class="toolbar">
+                    <label for="sort-by">Sort by</label>
+                    <select id="sort-by">
+                        <option value="priority">Priority</option>
+                        <option value="due">Due date</option>
+                        <option value="created">Created date</option>
+                    </select>
+                    <label for="group-by">Group by</label>
+                    <select id="group-by">
+                        <option value="none">None</option>
+                        <option value="tag">#Tag</option>
+                        <option value="context">@Context</option>
+                        <option value="project">+Project</option>
+                        <option value="waiting">Waiting for</option>
+                    </select>
+                    <input type="checkbox" id="show-blocked">
+                    <label for="show-blocked">Blocked</label>
+                </div>
+                
+                <input type="text" id="filter" class="filter" placeholder="Filter, e.g. #work @anna +launch">
+                
                 <div id="loading" class="loading" style="display: none;">
                     Loading tasks...
                 </div>
@@ -270,9 +419,37 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                         const loadingIndicator = document.getElementById('loading');
                         const refreshButton = document.getElementById('refresh-btn');
                         const rollButton = document.getElementById('roll-btn');
+                        const sortSelect = document.getElementById('sort-by');
+                        const groupSelect = document.getElementById('group-by');
+                        const filterInput = document.getElementById('filter');
+                        const showBlockedInput = document.getElementById('show-blocked');
+                        
+                        // Task fields each grouping reads, and how group names are shown
+                        const groupings = {
+                            tag: { field: 'tags', prefix: '#' },
+                            context: { field: 'contexts', prefix: '@' },
+                            project: { field: 'projects', prefix: '+' },
+                            waiting: { field: 'waitingFor', prefix: 'Waiting for @' }
+                        };
                         
                         let tasks = [];
                         
+                        // Restore the last chosen view settings
+                        const state = vscode.getState() || {};
+                        sortSelect.value = state.sortBy || sortSelect.value;
+                        groupSelect.value = state.groupBy || groupSelect.value;
+                        filterInput.value = state.filter || '';
+                        showBlockedInput.checked = !!state.showBlocked;
+                        
+                        function saveState() {
+                            vscode.setState({
+                                sortBy: sortSelect.value,
+                                groupBy: groupSelect.value,
+                                filter: filterInput.value,
+                                showBlocked: showBlockedInput.checked
+                            });
+                        }
+                        
                         // Handle messages from extension
                         window.addEventListener('message', event => {
                             const message = event.data;
@@ -303,66 +480,201 @@ export class TasksViewProvider implements vscode.WebviewViewProvider {
                             vscode.postMessage({ command: 'rollTasks' });
                         });
                         
+                        // Re-render when the view settings change
+                        [sortSelect, groupSelect, showBlockedInput].forEach(select => {
+                            select.addEventListener('change', () => {
+                                saveState();
+                                renderTasks();
+                            });
+                        });
+                        filterInput.addEventListener('input', () => {
+                            saveState();
+                            renderTasks();
+                        });
+                        
+                        // Compare YYYY-MM-DD dates, placing missing dates last
+                        function compareDates(a, b) {
+                            if (!a || !b) {
+                                return (a ? 0 : 1) - (b ? 0 : 1);
+                            }
+                            return a.localeCompare(b);
+                        }
+                        
                         function renderTasks() {
                             // Clear existing tasks except empty state
                             while (taskList.firstChild) {
                                 taskList.removeChild(taskList.firstChild);
                             }
                             
-                            if (tasks.length === 0) {
+                            const visibleTasks = filterTasks(tasks);
+                            if (visibleTasks.length === 0) {
                                 taskList.appendChild(emptyState);
                                 return;
                             }
                             
-                            // Sort tasks by priority (higher first), then by date (newer first)
-                            tasks.sort((a, b) => {
-                                if (a.priority !== b.priority) {
-                                    return b.priority - a.priority;
+                            visibleTasks.sort((a, b) => {
+                                switch (sortSelect.value) {
+                                    case 'due':
+                                        // Soonest due first
+                                        return compareDates(a.dueDate, b.dueDate) || b.priority - a.priority;
+                                    case 'created':
+                                        // Newest first
+                                        return compareDates(b.createdDate, a.createdDate) || b.priority - a.priority;
+                                    default:
+                                        // Higher priority first, then soonest due
+                                        return b.priority - a.priority || compareDates(a.dueDate, b.dueDate);
                                 }
-                                
-                                // Compare dates in reverse (assuming YYMMDD format)
-                                return b.date.localeCompare(a.date);
                             });
                             
-                            // Render tasks
-                            tasks.forEach(task => {
-                                const taskItem = document.createElement('div');
-                                taskItem.className = 'task-item';
-                                taskItem.dataset.filePath = task.filePath;
-                                taskItem.dataset.line = task.line;
-                                
-                                const priority = document.createElement('div');
-                                priority.className = 'priority priority-' + task.priority;
-                                priority.textContent = 'P' + task.priority;
-                                
-                                const taskText = document.createElement('div');
-                                taskText.className = 'task-text';
-                                taskText.textContent = task.text || '(No description)';
-                                
-                                const taskMeta = document.createElement('div');
-                                taskMeta.className = 'task-meta';
-                                
-                                // Format date as YY-MM-DD
-                                const dateStr = task.date || '';
-                                const formattedDate = dateStr.length === 6 ? 
-                                    \`\${dateStr.substring(0, 2)}-\${dateStr.substring(2, 4)}-\${dateStr.substring(4, 6)}\` : 
-                                    dateStr;
-                                    
-                                taskMeta.textContent = \`Created: \${formattedDate} • Difficulty: \${task.difficulty}\`;
-                                
-                                taskItem.appendChild(priority);
-                                taskItem.appendChild(taskText);
-                                taskItem.appendChild(taskMeta);
-                                
-                                taskItem.addEventListener('click', () => {
+                            // Render tasks, under a heading per group when grouping
+                            groupTasks(visibleTasks).forEach(group => {
+                                if (group.name !== null) {
+                                    const heading = document.createElement('div');
+                                    heading.className = 'group-heading';
+                                    heading.textContent = \`\${group.name} (\${group.tasks.length})\`;
+                                    taskList.appendChild(heading);
+                                }
+                                group.tasks.forEach(task => {
+                                    taskList.appendChild(createTaskItem(task));
+                                });
+                            });
+                        }
+                        
+                        // Keep tasks matching every filter term; #tag, @context and +project terms match tokens
+                        function filterTasks(list) {
+                            // Blocked tasks can't be started yet, so they are hidden unless asked for
+                            let result = showBlockedInput.checked ? list : list.filter(task => !task.blocked);
+                            if (groupSelect.value === 'waiting') {
+                                result = result.filter(task => task.waitingFor.length > 0);
+                            }
+                            
+                            const terms = filterInput.value.toLowerCase().split(/\\s+/).filter(term => term.length > 0);
+                            return result.filter(task => terms.every(term => {
+                                const value = term.substring(1);
+                                const matches = names => names.some(name => name.toLowerCase() === value);
+                                switch (value ? term[0] : '') {
+                                    case '#':
+                                        return matches(task.tags);
+                                    case '@':
+                                        return matches(task.contexts);
+                                    case '+':
+                                        return matches(task.projects);
+                                    default:
+                                        return task.text.toLowerCase().includes(term);
+                                }
+                            }));
+                        }
+                        
+                        // Split tasks into named groups; a task shows in every group it belongs to
+                        function groupTasks(list) {
+                            const grouping = groupings[groupSelect.value];
+                            if (!grouping) {
+                                return [{ name: null, tasks: list }];
+                            }
+                            
+                            const groups = new Map();
+                            list.forEach(task => {
+                                const values = task[grouping.field];
+                                const names = values.length > 0 ? values.map(value => grouping.prefix + value) : ['(none)'];
+                                names.forEach(name => {
+                                    if (!groups.has(name)) {
+                                        groups.set(name, []);
+                                    }
+                                    groups.get(name).push(task);
+                                });
+                            });
+                            
+                            return Array.from(groups.keys())
+                                .sort((a, b) => (a === '(none)') - (b === '(none)') || a.localeCompare(b))
+                                .map(name => ({ name, tasks: groups.get(name) }));
+                        }
+                        
+                        function createTaskItem(task) {
+                            const taskItem = document.createElement('div');
+                            taskItem.className = task.blocked ? 'task-item blocked' : 'task-item';
+                            taskItem.dataset.filePath = task.filePath;
+                            taskItem.dataset.line = task.line;
+                            
+                            const priority = document.createElement('div');
+                            priority.className = 'priority priority-' + task.priority;
+                            priority.textContent = 'P' + task.priority;
+                            
+                            const taskText = document.createElement('div');
+                            taskText.className = 'task-text';
+                            taskText.textContent = task.text || '(No description)';
+                            
+                            // Complete the task without leaving the sidebar list
+                            const toggle = document.createElement('input');
+                            toggle.type = 'checkbox';
+                            toggle.className = 'task-toggle';
+                            toggle.title = 'Mark as complete';
+                            toggle.addEventListener('click', event => {
+                                event.stopPropagation();
+                                vscode.postMessage({ 
+                                    command: 'toggleTask', 
+                                    task
+                                });
+                            });
+                            taskText.prepend(toggle);
+                            
+                            // Show which task a subtask belongs to
+                            if (task.parentText) {
+                                const parentText = document.createElement('div');
+                                parentText.className = 'task-parent';
+                                parentText.textContent = '↳ ' + task.parentText;
+                                taskText.prepend(parentText);
+                            }
+                            
+                            const taskMeta = document.createElement('div');
+                            taskMeta.className = 'task-meta';
+                            
+                            const meta = [];
+                            if (task.dueDate) {
+                                meta.push(\`Due: \${task.dueDate}\`);
+                            }
+                            if (task.createdDate) {
+                                meta.push(\`Created: \${task.createdDate}\`);
+                            }
+                            meta.push(\`Difficulty: \${task.difficulty}\`);
+                            if (task.progress) {
+                                meta.push(task.progress);
+                            }
+                            if (task.recurrence) {
+                                meta.push(\`Repeats \${task.recurrence}\`);
+                            }
+                            if (task.blocked) {
+                                meta.push(\`Blocked by: \${task.blockers.join(', ')}\`);
+                            }
+                            taskMeta.textContent = meta.join(' • ');
+                            
+                            // Rollover history, clickable to follow the task across notes
+                            if (task.history) {
+                                const history = document.createElement('span');
+                                history.className = 'task-history';
+                                history.textContent = task.history;
+                                history.addEventListener('click', event => {
+                                    event.stopPropagation();
                                     vscode.postMessage({ 
-                                        command: 'openTask', 
+                                        command: 'showHistory', 
                                         task
                                     });
                                 });
-                                
-                                taskList.appendChild(taskItem);
+                                taskMeta.appendChild(document.createTextNode(' • '));
+                                taskMeta.appendChild(history);
+                            }
+                            
+                            taskItem.appendChild(priority);
+                            taskItem.appendChild(taskText);
+                            taskItem.appendChild(taskMeta);
+                            
+                            taskItem.addEventListener('click', () => {
+                                vscode.postMessage({ 
+                                    command: 'openTask', 
+                                    task
+                                });
                             });
+                            
+                            return taskItem;
                         }
                         
                         function showError(message) {
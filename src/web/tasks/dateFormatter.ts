@@ -1,8 +1,20 @@
 /**
- * Format date as YYMMDD for task due dates
+ * Date forms accepted in task markers
  */
-export function formatDateForTask(date: Date): string {
-    const yy = date.getFullYear().toString().substring(2, 4);
+export type TaskDateFormat = 'YYMMDD' | 'YYYY-MM-DD';
+
+/**
+ * Format date for task markers, as YYMMDD or YYYY-MM-DD.
+ * YYMMDD is always read back as 20xx, so dates in other centuries are
+ * written as YYYY-MM-DD whatever the format asked for.
+ */
+export function formatDateForTask(date: Date, format: TaskDateFormat = 'YYMMDD'): string {
+    const year = date.getFullYear();
+    if (format === 'YYYY-MM-DD' || year < 2000 || year > 2099) {
+        return formatDateYYYYMMDD(date);
+    }
+    
+    const yy = year.toString().substring(2, 4);
     const mm = (date.getMonth() + 1).toString().padStart(2, '0');
     const dd = date.getDate().toString().padStart(2, '0');
     return `${yy}${mm}${dd}`;
@@ -30,21 +42,192 @@ export function formatDateLong(date: Date): string {
 }
 
 /**
- * Parse a date string in YYMMDD format
+ * Format date as Day Month (e.g., 3 Mar)
+ */
+export function formatDateShort(date: Date): string {
+    return date.toLocaleDateString('en-GB', {
+        day: 'numeric',
+        month: 'short'
+    });
+}
+
+/**
+ * Parse a note date string in YYYY-MM-DD format
  */
-export function parseTaskDate(dateStr: string): Date {
-    if (dateStr.length !== 6) {
-        throw new Error(`Invalid task due date format: ${dateStr}`);
+export function parseNoteDate(dateStr: string): Date {
+    const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+        throw new Error(`Invalid note date format: ${dateStr}`);
+    }
+    
+    return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+}
+
+/**
+ * Parse a task date string in YYMMDD or YYYY-MM-DD format, or a phrase
+ * understood by `parseNaturalDate`, read relative to the reference date.
+ * Throws for days that don't exist, such as 250431 or 2025-02-31.
+ */
+export function parseTaskDate(dateStr: string, reference: Date = new Date()): Date {
+    const long = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr);
+    if (long) {
+        return checkedDate(parseInt(long[1], 10), parseInt(long[2], 10) - 1, parseInt(long[3], 10), dateStr);
+    }
+    
+    if (!/^\d{6}$/.test(dateStr)) {
+        const natural = parseNaturalDate(dateStr, reference);
+        if (!natural) {
+            throw new Error(`Invalid task due date format: ${dateStr}`);
+        }
+        return natural;
     }
     
     const yy = parseInt(dateStr.substring(0, 2));
     const mm = parseInt(dateStr.substring(2, 4)) - 1; // 0-based month
     const dd = parseInt(dateStr.substring(4, 6));
     
-    // Handle 2-digit year (assume 20xx for now)
+    // Two-digit years are always 20xx; use YYYY-MM-DD for anything else
     const year = 2000 + yy;
     
-    return new Date(year, mm, dd);
+    return checkedDate(year, mm, dd, dateStr);
+}
+
+function checkedDate(year: number, month: number, day: number, dateStr: string): Date {
+    const date = month >= 0 && month < 12 ? validDate(year, month, day) : null;
+    if (!date) {
+        throw new Error(`Task date does not exist: ${dateStr}`);
+    }
+    return date;
+}
+
+/**
+ * Convert a task date string to the given format
+ */
+export function convertTaskDate(dateStr: string, format: TaskDateFormat, reference: Date = new Date()): string {
+    return formatDateForTask(parseTaskDate(dateStr, reference), format);
+}
+
+/**
+ * Check whether a task date is written as YYMMDD or YYYY-MM-DD rather than as a phrase
+ */
+export function isCanonicalTaskDate(dateStr: string): boolean {
+    return /^(\d{6}|\d{4}-\d{2}-\d{2})$/.test(dateStr);
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+/**
+ * Parse a date written in words, relative to a reference date (today by default).
+ * Case and hyphens between words don't matter, so `next-friday` works where
+ * spaces can't be used. Understood forms:
+ *
+ * - `today`, `tomorrow`, `yesterday`
+ * - `in 3 days`, `in a week`, `2 weeks`, `in 1 month`
+ * - `friday`, `next friday` (the first Friday after the reference date),
+ *   `this friday` (the Friday of the reference date's week); names may be shortened, e.g. `fri`
+ * - `next week` (its Monday), `next month` (its first day)
+ * - `end of week` or `eow` (Sunday), `end of month` or `eom`, `end of year` or `eoy`
+ * - `2025/03/14`, `14.03.2025`, `14 March 2025`, `Mar 14, 2025`, and `14 March`
+ *   or `March 14`, which mean the next such day
+ *
+ * Returns null for anything else, or for a day that doesn't exist.
+ */
+export function parseNaturalDate(text: string, reference: Date = new Date()): Date | null {
+    const phrase = text.trim().toLowerCase().replace(/[\s_]+|-(?=[a-z])|(?<=[a-z])-/g, ' ').replace(/,/g, '');
+    const year = reference.getFullYear();
+    const month = reference.getMonth();
+    const day = reference.getDate();
+    const weekdayIndex = (name: string) => WEEKDAYS.findIndex(weekday => name.length >= 3 && weekday.startsWith(name));
+    const monthIndex = (name: string) => MONTHS.findIndex(monthName => name.length >= 3 && monthName.startsWith(name));
+    
+    switch (phrase) {
+        case 'today':
+            return new Date(year, month, day);
+        case 'tomorrow':
+        case 'tmrw':
+            return new Date(year, month, day + 1);
+        case 'yesterday':
+            return new Date(year, month, day - 1);
+        case 'next week':
+            return new Date(year, month, day + 7 - (reference.getDay() + 6) % 7);
+        case 'next month':
+            return new Date(year, month + 1, 1);
+        case 'end of week':
+        case 'eow':
+            return new Date(year, month, day + (7 - reference.getDay()) % 7);
+        case 'end of month':
+        case 'eom':
+            return new Date(year, month + 1, 0);
+        case 'end of year':
+        case 'eoy':
+            return new Date(year, 11, 31);
+    }
+    
+    let match = /^(?:in )?(a|an|\d+) (day|week|month)s?$/.exec(phrase);
+    if (match) {
+        const count = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : 1;
+        switch (match[2]) {
+            case 'day':
+                return new Date(year, month, day + count);
+            case 'week':
+                return new Date(year, month, day + count * 7);
+            default:
+                return validDate(year, month + count, Math.min(day, new Date(year, month + count + 1, 0).getDate()));
+        }
+    }
+    
+    match = /^(next |this )?([a-z]+)$/.exec(phrase);
+    if (match && weekdayIndex(match[2]) >= 0) {
+        const target = weekdayIndex(match[2]);
+        if (match[1] === 'this ') {
+            // Weeks run Monday to Sunday
+            const offset = (target + 6) % 7 - (reference.getDay() + 6) % 7;
+            return new Date(year, month, day + offset);
+        }
+        return new Date(year, month, day + ((target - reference.getDay() + 7) % 7 || 7));
+    }
+    
+    match = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/.exec(phrase);
+    if (match) {
+        return validDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    }
+    
+    match = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(phrase);
+    if (match) {
+        return validDate(parseInt(match[3], 10), parseInt(match[2], 10) - 1, parseInt(match[1], 10));
+    }
+    
+    // "14 March 2025", "March 14 2025", "14 March", "March 14"
+    match = /^(?:(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)|([a-z]+) (\d{1,2})(?:st|nd|rd|th)?)(?: (\d{4}))?$/.exec(phrase);
+    if (match) {
+        const monthNumber = monthIndex(match[2] ?? match[3]);
+        const dayNumber = parseInt(match[1] ?? match[4], 10);
+        if (monthNumber < 0) {
+            return null;
+        }
+        if (match[5]) {
+            return validDate(parseInt(match[5], 10), monthNumber, dayNumber);
+        }
+        // Without a year, the next such day on or after the reference date
+        const thisYear = validDate(year, monthNumber, dayNumber);
+        return thisYear && thisYear < new Date(year, month, day)
+            ? validDate(year + 1, monthNumber, dayNumber)
+            : thisYear ?? validDate(year + 1, monthNumber, dayNumber);
+    }
+    
+    return null;
+}
+
+/**
+ * Build a date, or null if the day doesn't exist in that month
+ */
+function validDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(year, month, day);
+    return date.getMonth() === ((month % 12) + 12) % 12 && date.getDate() === day ? date : null;
 }
 
 /**
@@ -61,31 +244,36 @@ export function getISOWeek(date: Date): number {
  * Format a task date for display in UI
  */
 export function formatTaskDateForDisplay(dateStr: string): string {
-    if (dateStr.length !== 6) {
-        return dateStr; // Return as-is if invalid
-    }
-    
     try {
-        // Format as MM-DD-YY for display
-        return `${dateStr.substring(2, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(0, 2)}`;
+        // Format as MM-DD-YYYY for display
+        const date = parseTaskDate(dateStr);
+        const yyyy = date.getFullYear();
+        const mm = (date.getMonth() + 1).toString().padStart(2, '0');
+        const dd = date.getDate().toString().padStart(2, '0');
+        return `${mm}-${dd}-${yyyy}`;
     } catch {
-        return dateStr;
+        return dateStr; // Return as-is if invalid
     }
 }
 
+/**
+ * Get the number of days from today until a task date, negative when it has passed
+ */
+export function getDaysUntil(dateStr: string, today: Date = new Date()): number {
+    const taskDay = parseTaskDate(dateStr);
+    const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    
+    // Round rather than floor, since a day across a DST change is not 24 hours
+    return Math.round((taskDay.getTime() - startOfToday.getTime()) / (1000 * 60 * 60 * 24));
+}
+
 /**
  * Get relative date description for due dates (e.g., Today, Tomorrow, 3 days from now)
  */
-export function getRelativeDateDescription(dateStr: string): string {
+export function getRelativeDateDescription(dateStr: string, today: Date = new Date()): string {
     try {
         const dueDate = parseTaskDate(dateStr);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        const taskDay = new Date(dueDate);
-        taskDay.setHours(0, 0, 0, 0);
-        
-        const diffDays = Math.floor((taskDay.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        const diffDays = getDaysUntil(dateStr, today);
         
         if (diffDays < 0) {
             return diffDays === -1 ? 'Due Yesterday' : `${Math.abs(diffDays)} days overdue`;
@@ -104,4 +292,23 @@ export function getRelativeDateDescription(dateStr: string): string {
     } catch {
         return formatTaskDateForDisplay(dateStr);
     }
+}
+
+/**
+ * Dates offered when filling in a due date, starting from today
+ */
+export function getDueDateSuggestions(today: Date = new Date()): { label: string; date: Date }[] {
+    const year = today.getFullYear();
+    const month = today.getMonth();
+    const day = today.getDate();
+    // Days until the next Monday, a full week when today is Monday
+    const toMonday = (8 - today.getDay()) % 7 || 7;
+    
+    return [
+        { label: 'today', date: new Date(year, month, day) },
+        { label: 'tomorrow', date: new Date(year, month, day + 1) },
+        { label: 'next Monday', date: new Date(year, month, day + toMonday) },
+        { label: 'in a week', date: new Date(year, month, day + 7) },
+        { label: 'end of month', date: new Date(year, month + 1, 0) }
+    ];
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { Task, getNoteDate, parseTasksInLines } from './taskModel';
+import { MarkerOptions } from './taskMarker';
+import { formatDateLong, getRelativeDateDescription, parseNoteDate } from './dateFormatter';
+import { describeTaskHistory, getTaskHistory } from './taskHistory';
+import { describeRecurrence, parseRecurrence } from './taskRecurrence';
+
+/**
+ * What the hover cards in notes say:
+ * - on a task line, its status, fields, due date and rollover history
+ * - on a date such as 2025-04-10, the start of that day's note and its open tasks
+ *
+ * Lines are markdown, except where noted as plain text.
+ */
+
+// Lines of a note shown in a date preview
+const PREVIEW_LINES = 6;
+// Open tasks listed in a date preview
+const PREVIEW_TASKS = 10;
+
+export interface TaskCard {
+    /** Markdown paragraphs about the task itself */
+    lines: string[];
+    /** Date (YYYY-MM-DD) of the note the task was first written in, if it has moved since */
+    originDate?: string;
+    /** How the task has been rolled over, if it has */
+    history?: string;
+}
+
+export interface NotePreview {
+    /** The note's heading, or the date written out (plain text) */
+    title: string;
+    /** The first lines of the note that aren't the heading or a task */
+    excerpt: string[];
+    /** Text of the first open tasks (plain text) */
+    openTasks: string[];
+    /** Open tasks left out of the list */
+    moreTasks: number;
+}
+
+/**
+ * Describe a task, following it through the notes it was rolled across
+ */
+export function buildTaskCard(task: Task, allTasks: Task[], today: Date = new Date()): TaskCard {
+    const status = { TODO: 'Open', COMPLETE: 'Completed', ROLL: 'Rolled over' }[task.status];
+    const lines = [`**${status}** · Priority ${task.priority} · Difficulty ${task.difficulty}`];
+
+    if (task.dueDate && task.status === 'TODO') {
+        lines.push(`${getRelativeDateDescription(task.dueDate, today)} (${formatDateLong(parseNoteDate(task.dueDate))})`);
+    } else if (task.dueDate) {
+        lines.push(`Was due ${formatDateLong(parseNoteDate(task.dueDate))}`);
+    }
+    if (task.recurrence) {
+        const recurrence = parseRecurrence(task.recurrence);
+        lines.push(`Repeats ${recurrence ? describeRecurrence(recurrence) : task.recurrence}`);
+    }
+    if (task.blockedBy.length > 0) {
+        lines.push(`Blocked by ${task.blockedBy.map(id => `\`^${id}\``).join(', ')}`);
+    }
+
+    const history = getTaskHistory(task, allTasks);
+    const origin = history[0];
+    return {
+        lines,
+        originDate: (origin !== task ? getNoteDate(origin.filePath) : task.rolledFrom) ?? undefined,
+        history: history.length > 1 ? describeTaskHistory(history) : undefined
+    };
+}
+
+/**
+ * Summarise the note for a date from its lines
+ */
+export function buildNotePreview(date: string, lines: string[], filePath: string, options: MarkerOptions = {}): NotePreview {
+    const tasks = parseTasksInLines(lines, filePath, options);
+    const openTasks = tasks.filter(task => task.status === 'TODO');
+    const taskLines = new Set(tasks.map(task => task.line));
+    const heading = lines.find(line => line.startsWith('# '));
+
+    return {
+        title: heading ? heading.substring(2).trim() : formatDateLong(parseNoteDate(date)),
+        excerpt: lines
+            .filter((line, index) => line.trim() && line !== heading && !taskLines.has(index))
+            .slice(0, PREVIEW_LINES),
+        openTasks: openTasks.slice(0, PREVIEW_TASKS).map(task => task.text || '(No description)'),
+        moreTasks: Math.max(0, openTasks.length - PREVIEW_TASKS)
+    };
+}
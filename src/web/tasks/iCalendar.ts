@@ -0,0 +1,247 @@
+import { Task } from './taskModel';
+import { formatDateYYYYMMDD, parseNoteDate } from './dateFormatter';
+import { escapeTaskText } from './taskMarker';
+
+/**
+ * Reading and writing iCalendar (.ics) files, as described in RFC 5545.
+ *
+ * Export writes tasks as VTODO entries and daily notes as all-day VEVENTs.
+ * Import only reads VEVENTs. Recurring events are read as their first
+ * occurrence, and times with a TZID are taken as local times.
+ */
+
+/**
+ * A daily note to show as an all-day event
+ */
+export interface CalendarNote {
+    date: string;   // YYYY-MM-DD
+    title: string;
+}
+
+/**
+ * An event read from an .ics file
+ */
+export interface CalendarEvent {
+    summary: string;
+    start: Date;
+    /** Exclusive end, if given */
+    end?: Date;
+    allDay: boolean;
+    location?: string;
+}
+
+/**
+ * Build an .ics file from tasks and notes.
+ * Open tasks are included when they have a due date; completed tasks always are.
+ */
+export function buildICalendar(tasks: Task[], notes: CalendarNote[], now: Date = new Date()): string {
+    const stamp = formatDateTimeUTC(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Calmdown//Journal//EN',
+        'CALSCALE:GREGORIAN'
+    ];
+
+    for (const note of notes) {
+        const start = parseNoteDate(note.date);
+        const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:note-${note.date}@calmdown`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatDate(start)}`,
+            `DTEND;VALUE=DATE:${formatDate(end)}`,
+            `SUMMARY:${escapeText(note.title)}`,
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        );
+    }
+
+    for (const task of tasks) {
+        const completed = task.status === 'COMPLETE';
+        if (!completed && (task.status !== 'TODO' || !task.dueDate)) {
+            continue;
+        }
+
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:${task.id ? `task-${task.id}` : `task-${hashString(`${task.filePath}\n${task.text}`)}`}@calmdown`,
+            `DTSTAMP:${stamp}`,
+            `SUMMARY:${escapeText(task.text)}`
+        );
+        if (task.dueDate) {
+            lines.push(`DUE;VALUE=DATE:${formatDate(parseNoteDate(task.dueDate))}`);
+        }
+        // iCalendar priorities run from 1 (highest) to 9 (lowest)
+        if (task.priority > 0) {
+            lines.push(`PRIORITY:${task.priority >= 3 ? 1 : task.priority === 2 ? 5 : 9}`);
+        }
+        if (task.tags.length > 0) {
+            lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+        }
+        lines.push(`STATUS:${completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+        // COMPLETED must be a UTC time; the start of the day it was completed on
+        if (completed && task.completedDate) {
+            lines.push(`COMPLETED:${formatDateTimeUTC(parseNoteDate(task.completedDate))}`);
+        }
+        lines.push('END:VTODO');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the events from an .ics file
+ */
+export function parseICalendarEvents(content: string): CalendarEvent[] {
+    // Continuation lines start with a space or tab
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarEvent[] = [];
+    let current: Partial<CalendarEvent> | null = null;
+
+    for (const line of lines) {
+        const separator = line.indexOf(':');
+        if (separator < 0) {
+            continue;
+        }
+        const [name, ...params] = line.substring(0, separator).split(';');
+        const value = line.substring(separator + 1);
+
+        if (name === 'BEGIN' && value === 'VEVENT') {
+            current = { summary: '' };
+        } else if (name === 'END' && value === 'VEVENT') {
+            if (current && current.start) {
+                events.push(current as CalendarEvent);
+            }
+            current = null;
+        } else if (current) {
+            switch (name) {
+                case 'SUMMARY':
+                    current.summary = unescapeText(value);
+                    break;
+                case 'LOCATION':
+                    current.location = unescapeText(value) || undefined;
+                    break;
+                case 'DTSTART': {
+                    const start = parseDateTime(value, params);
+                    if (start) {
+                        current.start = start.date;
+                        current.allDay = start.allDay;
+                    }
+                    break;
+                }
+                case 'DTEND':
+                    current.end = parseDateTime(value, params)?.date;
+                    break;
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Get the days (YYYY-MM-DD) an event falls on. All-day events cover every
+ * day up to their end; timed events belong to the day they start.
+ */
+export function getEventDays(event: CalendarEvent): string[] {
+    const days = [formatDateYYYYMMDD(event.start)];
+    if (event.allDay && event.end) {
+        const day = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1);
+        while (day < event.end) {
+            days.push(formatDateYYYYMMDD(day));
+            day.setDate(day.getDate() + 1);
+        }
+    }
+    return days;
+}
+
+/**
+ * Write an event as an agenda line, e.g. "- 09:00-09:30 Standup (Room 4)".
+ * Marker syntax in the title or location is escaped, so events never become tasks.
+ */
+export function formatAgendaLine(event: CalendarEvent): string {
+    const time = (date: Date) =>
+        `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    const when = event.allDay
+        ? 'All day:'
+        : event.end ? `${time(event.start)}-${time(event.end)}` : time(event.start);
+    const location = event.location ? ` (${event.location})` : '';
+    return `- ${when} ${escapeTaskText(`${event.summary || '(No title)'}${location}`)}`;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC times are converted to local time;
+ * floating times and times with a TZID are read as local.
+ */
+function parseDateTime(value: string, params: string[]): { date: Date; allDay: boolean } | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day] = [match[1], match[2], match[3]].map(part => parseInt(part, 10));
+    if (!match[4] || params.includes('VALUE=DATE')) {
+        return { date: new Date(year, month - 1, day), allDay: true };
+    }
+    const [hours, minutes, seconds] = [match[4], match[5], match[6]].map(part => parseInt(part, 10));
+    const date = match[7]
+        ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+        : new Date(year, month - 1, day, hours, minutes, seconds);
+    return { date, allDay: false };
+}
+
+function formatDate(date: Date): string {
+    return formatDateYYYYMMDD(date).replace(/-/g, '');
+}
+
+function formatDateTimeUTC(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+}
+
+/**
+ * Split lines longer than 75 octets of UTF-8, as the format requires,
+ * without splitting a character. Continuation lines start with a space,
+ * which counts towards their length.
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = utf8Length(char.codePointAt(0)!);
+        if (octets + size > 75) {
+            parts.push(part);
+            part = ' ';
+            octets = 1;
+        }
+        part += char;
+        octets += size;
+    }
+    parts.push(part);
+    return parts.join('\r\n');
+}
+
+function utf8Length(codePoint: number): number {
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Short stable hash, used for UIDs of tasks without an ID
+ */
+function hashString(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+    }
+    return hash.toString(36);
+}
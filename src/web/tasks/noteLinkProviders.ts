@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { createNote, getNoteUri } from '../fileManager';
+import { formatDateYYYYMMDD, parseNoteDate } from './dateFormatter';
+import { getNoteDate } from './taskModel';
+import { NoteLink, NoteLinkKind, findNoteLinks, getNoteLinkText, getWeeklyReviewMonday } from './noteLinks';
+import { createWeeklyReview, fileExists, getWeeklyReviewUri } from './taskWeeklyReview';
+import { getDocumentLines } from './taskNavigator';
+
+// The `[[` being typed and what follows it so far
+const LINK_START_REGEX = /\[\[([\w-]*)$/;
+// Existing notes offered when completing a link
+const MAX_NOTE_SUGGESTIONS = 30;
+
+/**
+ * Ctrl+click on `[[2025-03-14]]` or `[[Week-11]]` in a journal note goes to
+ * that note, creating it from its template if it doesn't exist yet
+ */
+export class NoteLinkProvider implements vscode.DocumentLinkProvider, vscode.DefinitionProvider {
+    public provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        if (!ConfigService.getInstance().isJournalNote(document.uri)) {
+            return [];
+        }
+        return getDocumentNoteLinks(document).map(({ link, line }) => {
+            const args = encodeURIComponent(JSON.stringify([link.kind, link.date]));
+            const documentLink = new vscode.DocumentLink(
+                new vscode.Range(line, link.targetRange.start, line, link.targetRange.end),
+                vscode.Uri.parse(`command:calmdown.openNoteLink?${args}`)
+            );
+            documentLink.tooltip = link.kind === 'day'
+                ? `Open the note for ${link.date}`
+                : `Open the review for the week of ${link.date}`;
+            return documentLink;
+        });
+    }
+
+    /**
+     * Go to Definition on a link, for notes that already exist
+     */
+    public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+        if (!ConfigService.getInstance().isJournalNote(document.uri)) {
+            return undefined;
+        }
+        const link = findNoteLinks(document.lineAt(position.line).text, getLinkReference(document.uri))
+            .find(candidate => position.character >= candidate.range.start && position.character < candidate.range.end);
+        const uri = link && getLinkUri(link.kind, link.date);
+        if (!uri || !await fileExists(uri)) {
+            return undefined;
+        }
+        return new vscode.Location(uri, new vscode.Position(0, 0));
+    }
+}
+
+/**
+ * Open the note a link points to, creating it if needed
+ */
+export async function openNoteLink(
+    scanner: TaskScanner,
+    kind: NoteLinkKind,
+    date: string,
+    context?: vscode.ExtensionContext
+): Promise<void> {
+    try {
+        if (kind === 'day') {
+            await createNote(date, context);
+            return;
+        }
+        const uri = getWeeklyReviewUri(date);
+        if (uri && await fileExists(uri)) {
+            await vscode.window.showTextDocument(uri);
+        } else {
+            await createWeeklyReview(scanner, date, context);
+        }
+    } catch (error) {
+        handleTaskError('Failed to open linked note', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Completes `[[` with nearby days, existing notes and nearby weeks
+ */
+export class NoteLinkCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private readonly scanner: TaskScanner) { }
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        if (!ConfigService.getInstance().isJournalNote(document.uri)) {
+            return undefined;
+        }
+        const lineText = document.lineAt(position.line).text;
+        const match = LINK_START_REGEX.exec(lineText.substring(0, position.character));
+        if (!match) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(position.translate(0, -match[1].length), position);
+        const closing = lineText.substring(position.character).startsWith(']]') ? '' : ']]';
+        const today = new Date();
+        const day = (offset: number) => formatDateYYYYMMDD(new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset));
+
+        const suggestions: { kind: NoteLinkKind; date: string; detail: string }[] = [
+            { kind: 'day', date: day(0), detail: 'Today' },
+            { kind: 'day', date: day(-1), detail: 'Yesterday' },
+            { kind: 'day', date: day(1), detail: 'Tomorrow' },
+            { kind: 'week', date: day(0), detail: 'This week' },
+            { kind: 'week', date: day(-7), detail: 'Last week' },
+            { kind: 'week', date: day(7), detail: 'Next week' }
+        ];
+        // Then the most recent notes
+        const noteDates = (await this.scanner.findMarkdownFiles())
+            .map(file => getNoteDate(file.fsPath))
+            .filter((date): date is string => !!date)
+            .sort()
+            .reverse()
+            .slice(0, MAX_NOTE_SUGGESTIONS);
+        noteDates.forEach(date => suggestions.push({ kind: 'day', date, detail: 'Note' }));
+
+        const seen = new Set<string>();
+        return suggestions.flatMap(({ kind, date, detail }, index) => {
+            const text = getNoteLinkText(kind, date);
+            if (seen.has(text)) {
+                return [];
+            }
+            seen.add(text);
+            const item = new vscode.CompletionItem({ label: text, description: detail }, vscode.CompletionItemKind.Reference);
+            item.insertText = `${text}${closing}`;
+            item.filterText = text;
+            item.sortText = index.toString().padStart(3, '0');
+            item.range = range;
+            return [item];
+        });
+    }
+}
+
+interface Backlink {
+    uri: vscode.Uri;
+    line: number;
+    text: string;
+    /** Date of the linking note, for sorting and display */
+    noteDate?: string;
+}
+
+/**
+ * Lists every journal note that links to the note in the active editor
+ */
+export class BacklinksProvider implements vscode.TreeDataProvider<Backlink>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly disposables: vscode.Disposable[] = [];
+    private backlinks: Backlink[] = [];
+    private view: vscode.TreeView<Backlink> | undefined;
+
+    constructor(private readonly scanner: TaskScanner) {
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.window.onDidChangeActiveTextEditor(() => this.refresh()),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document.languageId === 'markdown') {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    public attach(view: vscode.TreeView<Backlink>): void {
+        this.view = view;
+        this.disposables.push(view.onDidChangeVisibility(() => this.refresh()));
+        this.refresh();
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public getTreeItem(backlink: Backlink): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            backlink.noteDate ?? vscode.workspace.asRelativePath(backlink.uri),
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.description = backlink.text;
+        item.tooltip = `${vscode.workspace.asRelativePath(backlink.uri)}:${backlink.line + 1}\n${backlink.text}`;
+        item.iconPath = new vscode.ThemeIcon('references');
+        item.command = {
+            title: 'Open',
+            command: 'vscode.open',
+            arguments: [backlink.uri, { selection: new vscode.Range(backlink.line, 0, backlink.line, 0) }]
+        };
+        return item;
+    }
+
+    public getChildren(backlink?: Backlink): Backlink[] {
+        return backlink ? [] : this.backlinks;
+    }
+
+    private async refresh(): Promise<void> {
+        // Every note is read to find links, so only while the view is showing
+        if (!this.view?.visible) {
+            return;
+        }
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const target = uri && getNoteIdentity(uri);
+        if (!target) {
+            // Keep showing the last note's backlinks while other files are focused
+            if (this.backlinks.length === 0) {
+                this.view.message = 'Open a daily note or weekly review to see the notes that link to it.';
+            }
+            return;
+        }
+
+        try {
+            const backlinks: Backlink[] = [];
+            for (const file of await this.scanner.findMarkdownFiles()) {
+                if (file.toString() === uri.toString()) {
+                    continue;
+                }
+                const lines = new TextDecoder().decode(await vscode.workspace.fs.readFile(file)).split(/\r?\n/);
+                const reference = getLinkReference(file);
+                lines.forEach((text, line) => {
+                    if (findNoteLinks(text, reference).some(link => link.kind === target.kind && link.date === target.date)) {
+                        backlinks.push({ uri: file, line, text: text.trim(), noteDate: getNoteDate(file.fsPath) ?? undefined });
+                    }
+                });
+            }
+
+            // Newest notes first
+            this.backlinks = backlinks.sort((a, b) => (b.noteDate ?? '').localeCompare(a.noteDate ?? '') || a.line - b.line);
+            const name = getNoteLinkText(target.kind, target.date);
+            this.view.description = name;
+            this.view.message = this.backlinks.length === 0 ? `No notes link to ${name} yet.` : undefined;
+            this.changeEmitter.fire();
+        } catch (error) {
+            console.error('Failed to find backlinks:', error);
+        }
+    }
+}
+
+/**
+ * Get the links in a document with the lines they are on
+ */
+function getDocumentNoteLinks(document: vscode.TextDocument): { link: NoteLink; line: number }[] {
+    const reference = getLinkReference(document.uri);
+    return getDocumentLines(document).flatMap((text, line) =>
+        findNoteLinks(text, reference).map(link => ({ link, line }))
+    );
+}
+
+/**
+ * Get the day or week a journal note is for, if it is a daily note or a weekly review
+ */
+function getNoteIdentity(uri: vscode.Uri): { kind: NoteLinkKind; date: string } | undefined {
+    if (!ConfigService.getInstance().isJournalNote(uri)) {
+        return undefined;
+    }
+    const noteDate = getNoteDate(uri.path);
+    if (noteDate) {
+        return { kind: 'day', date: noteDate };
+    }
+    const monday = getWeeklyReviewMonday(uri.path);
+    return monday ? { kind: 'week', date: monday } : undefined;
+}
+
+/**
+ * Get the date week links in a note are read relative to: the note's own
+ * day or week, or today for other notes
+ */
+function getLinkReference(uri: vscode.Uri): Date {
+    const identity = getNoteIdentity(uri);
+    return identity ? parseNoteDate(identity.date) : new Date();
+}
+
+function getLinkUri(kind: NoteLinkKind, date: string): vscode.Uri | undefined {
+    return kind === 'day' ? getNoteUri(date) : getWeeklyReviewUri(date);
+}
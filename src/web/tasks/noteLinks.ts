@@ -0,0 +1,101 @@
+import { formatDateYYYYMMDD, parseNoteDate } from './dateFormatter';
+import { MarkerRange } from './taskMarker';
+import { getReviewWeek } from './weeklyReview';
+
+/**
+ * Wiki-style links between journal notes:
+ *
+ *     see [[2025-03-14]] and the review in [[Week-11]]
+ *
+ * `[[YYYY-MM-DD]]` links to the daily note for that day. `[[Week-NN]]` links
+ * to the weekly review of that ISO week, in the year of the note the link is
+ * written in.
+ */
+
+export type NoteLinkKind = 'day' | 'week';
+
+export interface NoteLink {
+    kind: NoteLinkKind;
+    /** The day linked to, or the Monday of the week (YYYY-MM-DD) */
+    date: string;
+    /** Span of the whole `[[...]]` link */
+    range: MarkerRange;
+    /** Span of the text between the brackets */
+    targetRange: MarkerRange;
+}
+
+const NOTE_LINK_REGEX = /\[\[(?:(\d{4}-\d{2}-\d{2})|Week-(\d{1,2}))\]\]/g;
+// A weekly review, in the folder of its Monday: .../2025/03-March/Week-11/Week-11.md
+const WEEKLY_REVIEW_PATH_REGEX = /(\d{4})\/(\d{2})-[^/]+\/Week-\d{2}\/Week-(\d{2})\.md$/;
+
+/**
+ * Find the note links on a line. Links to days or weeks that don't exist,
+ * such as [[2025-02-30]], are left out.
+ * @param reference date of the note the line is in, for the year of week links
+ */
+export function findNoteLinks(line: string, reference: Date): NoteLink[] {
+    const links: NoteLink[] = [];
+    NOTE_LINK_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = NOTE_LINK_REGEX.exec(line)) !== null) {
+        const date = match[1]
+            ? (isRealDay(match[1]) ? match[1] : null)
+            : getWeekMonday(getReviewWeek(formatDateYYYYMMDD(reference)).year, parseInt(match[2], 10));
+        if (!date) {
+            continue;
+        }
+        const start = match.index;
+        const end = start + match[0].length;
+        links.push({
+            kind: match[1] ? 'day' : 'week',
+            date,
+            range: { start, end },
+            targetRange: { start: start + 2, end: end - 2 }
+        });
+    }
+    return links;
+}
+
+/**
+ * Get the Monday (YYYY-MM-DD) of an ISO week, or null if the year has no such week
+ */
+export function getWeekMonday(year: number, week: number): string | null {
+    // 4 January is always in week 1
+    const january4 = new Date(year, 0, 4);
+    const monday = new Date(year, 0, 4 - (january4.getDay() + 6) % 7 + (week - 1) * 7);
+    const date = formatDateYYYYMMDD(monday);
+    const check = getReviewWeek(date);
+    return week >= 1 && check.week === week && check.year === year ? date : null;
+}
+
+/**
+ * Get the Monday (YYYY-MM-DD) of the week a weekly review file is for, or
+ * null if the path is not a weekly review
+ */
+export function getWeeklyReviewMonday(path: string): string | null {
+    const match = WEEKLY_REVIEW_PATH_REGEX.exec(path.replace(/\\/g, '/'));
+    if (!match) {
+        return null;
+    }
+    const year = parseInt(match[1], 10);
+    const week = parseInt(match[3], 10);
+    // The folder is named after the Monday, whose ISO year may be the next one
+    for (const isoYear of [year, year + 1]) {
+        const monday = getWeekMonday(isoYear, week);
+        if (monday && monday.startsWith(`${match[1]}-${match[2]}`)) {
+            return monday;
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the name a link to a note is written with, e.g. 2025-03-14 or Week-11
+ */
+export function getNoteLinkText(kind: NoteLinkKind, date: string): string {
+    return kind === 'day' ? date : `Week-${getReviewWeek(date).week.toString().padStart(2, '0')}`;
+}
+
+function isRealDay(date: string): boolean {
+    return formatDateYYYYMMDD(parseNoteDate(date)) === date;
+}
@@ -0,0 +1,85 @@
+import { TaskDateFormat, formatDateForTask, isCanonicalTaskDate, parseTaskDate } from './dateFormatter';
+import { TaskMarker, escapeTaskText } from './taskMarker';
+
+/**
+ * Reading a task typed on one line, as in the quick capture box:
+ *
+ *     Call plumber #house !! due:next-friday d:2
+ *
+ * - `!`, `!!` or `!!!`, or `p:1` to `p:3`, set the priority
+ * - `d:1` to `d:3` sets the difficulty
+ * - `due:<date>` sets the due date, as YYMMDD, YYYY-MM-DD or a phrase with
+ *   hyphens for spaces, such as `due:tomorrow` or `due:in-3-days`
+ *
+ * Everything else is the task text, so `#tags` and `@people` stay in it.
+ * Marker syntax typed in the text, such as `-=` or a trailing `^id`, is
+ * escaped so it stays text. The due date is written out as a date rather
+ * than the phrase typed.
+ */
+
+const PRIORITY_SHORTHAND_REGEX = /^!{1,3}$/;
+const LEVEL_REGEX = /^([pd]):(\S*)$/;
+const DUE_REGEX = /^due:(\S*)$/;
+
+/**
+ * Parse a captured line into a new TODO marker created today.
+ * Returns the problems instead when the line can't be read.
+ */
+export function parseQuickCapture(
+    input: string,
+    today: Date,
+    dateFormat: TaskDateFormat
+): { marker?: TaskMarker; errors: string[] } {
+    const errors: string[] = [];
+    const words: string[] = [];
+    let priority = 1;
+    let difficulty = 1;
+    let due = '';
+
+    for (const token of input.trim().split(/\s+/).filter(token => token)) {
+        const level = LEVEL_REGEX.exec(token);
+        const dueMatch = DUE_REGEX.exec(token);
+        if (PRIORITY_SHORTHAND_REGEX.test(token)) {
+            priority = token.length;
+        } else if (level) {
+            const name = level[1] === 'p' ? 'priority' : 'difficulty';
+            if (!/^[1-3]$/.test(level[2])) {
+                errors.push(`${name} must be 1, 2 or 3, got "${level[2]}"`);
+            } else if (level[1] === 'p') {
+                priority = parseInt(level[2], 10);
+            } else {
+                difficulty = parseInt(level[2], 10);
+            }
+        } else if (dueMatch) {
+            try {
+                due = formatDateForTask(parseTaskDate(dueMatch[1], today), dateFormat);
+            } catch {
+                errors.push(isCanonicalTaskDate(dueMatch[1])
+                    ? `Due date "${dueMatch[1]}" does not exist`
+                    : `Unknown due date "${dueMatch[1]}", try due:tomorrow or due:250410`);
+            }
+        } else {
+            words.push(token);
+        }
+    }
+
+    if (words.length === 0) {
+        errors.push('Enter the task text');
+    }
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        marker: {
+            status: 'TODO',
+            priority,
+            difficulty,
+            due,
+            attributes: [{ key: 'created', value: formatDateForTask(today, dateFormat) }],
+            text: escapeTaskText(words.join(' ')),
+            prefix: ''
+        },
+        errors
+    };
+}
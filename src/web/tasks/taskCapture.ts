@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { createNote } from '../fileManager';
+import { formatDateYYYYMMDD } from './dateFormatter';
+import { createTaskId, serializeMarker } from './taskMarker';
+import { parseQuickCapture } from './quickCapture';
+import { findSectionEnd, getDocumentTaskIds } from './taskNavigator';
+import { getRelativeLink } from './weeklyReview';
+
+const CAPTURED_HEADING = '## Captured';
+
+/**
+ * Add a task to the Captured section of today's note without leaving the
+ * current editor. The task is typed on one line, see `parseQuickCapture`.
+ */
+export async function captureTask(context?: vscode.ExtensionContext): Promise<void> {
+    const config = ConfigService.getInstance();
+    const dateFormat = config.getTaskDateFormat();
+    // Read before the input box takes focus
+    const source = vscode.window.activeTextEditor;
+
+    const input = await vscode.window.showInputBox({
+        prompt: 'Capture a task: text with #tags, !/!!/!!! or p:1-3 for priority, d:1-3 and due:<date>',
+        placeHolder: 'Call plumber #house !! due:friday',
+        validateInput: value => value.trim() ? parseQuickCapture(value, new Date(), dateFormat).errors.join('; ') || undefined : undefined
+    });
+    if (!input?.trim()) {
+        return;
+    }
+
+    try {
+        const { marker } = parseQuickCapture(input, new Date(), dateFormat);
+        const noteUri = await createNote(formatDateYYYYMMDD(new Date()), context, { reveal: false });
+        if (!marker || !noteUri) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(noteUri);
+
+        // Link back to where the task came up, unless that is today's note itself
+        if (config.getCaptureBacklink() && source && source.document.uri.scheme !== 'untitled' &&
+            source.document.uri.toString() !== noteUri.toString()) {
+            const line = source.selection.active.line + 1;
+            const folder = vscode.Uri.joinPath(noteUri, '..').path;
+            const link = getRelativeLink(folder, source.document.uri.path);
+            const name = source.document.uri.path.split('/').pop();
+            marker.text += ` ([${name}:${line}](${link}#L${line}))`;
+        }
+        marker.id = createTaskId(getDocumentTaskIds(document));
+
+        await appendToCapturedSection(document, serializeMarker(marker));
+        vscode.window.showInformationMessage(`Captured "${marker.text}" in today's note.`, 'Open Note').then(choice => {
+            if (choice === 'Open Note') {
+                vscode.window.showTextDocument(document);
+            }
+        });
+    } catch (error) {
+        handleTaskError('Failed to capture task', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Add a line to the end of a note's Captured section, starting the section
+ * at the end of the note if it has none. The note is saved unless it already
+ * had unsaved changes, which are left for the user to save.
+ */
+async function appendToCapturedSection(document: vscode.TextDocument, line: string): Promise<void> {
+    const wasDirty = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    const position = findSectionEnd(document, CAPTURED_HEADING);
+    if (position) {
+        edit.insert(document.uri, position, position.character > 0 ? `\n${line}` : `${line}\n`);
+    } else {
+        const end = document.lineAt(document.lineCount - 1).range.end;
+        const separator = document.getText().trim() === '' ? '' : end.character > 0 ? '\n\n' : '\n';
+        edit.insert(document.uri, end, `${separator}${CAPTURED_HEADING}\n\n${line}\n`);
+    }
+    await vscode.workspace.applyEdit(edit);
+    if (!wasDirty) {
+        await document.save();
+    }
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { getNoteDate, parseTasksInLines } from './taskModel';
+import { formatDateYYYYMMDD } from './dateFormatter';
+import { ConfigService } from '../common/configService';
+import { getDocumentLines } from './taskNavigator';
+
+/**
+ * Shows actions above each open or completed task in journal notes:
+ * Complete/Reopen, Reschedule, Priority +/- and Roll to today
+ */
+export class TaskCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('calmdown')) {
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const config = ConfigService.getInstance();
+        if (!config.getTaskCodeLens() || !config.isJournalNote(document.uri)) {
+            return [];
+        }
+
+        const isTodaysNote = getNoteDate(document.uri.fsPath) === formatDateYYYYMMDD(new Date());
+        const tasks = parseTasksInLines(getDocumentLines(document), document.uri.fsPath, config.getMarkerOptions());
+        const lenses: vscode.CodeLens[] = [];
+
+        // Malformed markers are not read as tasks, so they get no actions
+        for (const task of tasks) {
+            if (task.status === 'ROLL') {
+                continue;
+            }
+            const range = document.lineAt(task.line).range;
+            const args = [document.uri, task.line];
+            const open = task.status === 'TODO';
+
+            lenses.push(new vscode.CodeLens(range, {
+                title: open ? 'Complete' : 'Reopen',
+                command: 'calmdown.toggleTaskAt',
+                arguments: args
+            }));
+            if (open) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Reschedule',
+                    command: 'calmdown.rescheduleTask',
+                    arguments: args
+                }));
+            }
+            if (task.priority < 3) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Priority +',
+                    command: 'calmdown.increaseTaskPriority',
+                    arguments: args
+                }));
+            }
+            if (task.priority > 1) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Priority −',
+                    command: 'calmdown.decreaseTaskPriority',
+                    arguments: args
+                }));
+            }
+            if (open && !isTodaysNote) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Roll to today',
+                    command: 'calmdown.rollTaskToToday',
+                    arguments: args
+                }));
+            }
+        }
+
+        return lenses;
+    }
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { TaskDateFormat, formatDateForTask, formatDateYYYYMMDD, getDueDateSuggestions } from './dateFormatter';
+
+// An unclosed marker up to the cursor, with the due date being typed
+const MARKER_DATE_REGEX = /-=\s*(?:TODO|COMPLETE|ROLL)\s+\d+\s+\d+\s+([\d-]*)$/;
+// A date attribute being typed, e.g. `due:` in a checkbox task
+const DATE_ATTRIBUTE_REGEX = /(?:^|\s)(?:due|created|done):([\d-]*)$/;
+const TEXT_TOKEN_REGEX = /(?:^|\s)([#@])([\w/.-]*)$/;
+
+/**
+ * Completions for writing tasks in journal notes:
+ * - marker templates after `-=`, with tab stops for priority and difficulty
+ * - dates such as tomorrow or next Monday in the due date field
+ * - `#tags` and `@people` already used in the journal
+ */
+export class TaskCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private readonly scanner: TaskScanner) { }
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const config = ConfigService.getInstance();
+        if (!config.isJournalNote(document.uri)) {
+            return undefined;
+        }
+
+        const before = document.lineAt(position.line).text.substring(0, position.character);
+        const dateFormat = config.getTaskDateFormat();
+
+        if (before.endsWith('-=')) {
+            return this.getMarkerTemplates(dateFormat);
+        }
+
+        const dateMatch = MARKER_DATE_REGEX.exec(before) ?? DATE_ATTRIBUTE_REGEX.exec(before);
+        if (dateMatch) {
+            const range = new vscode.Range(position.translate(0, -dateMatch[1].length), position);
+            return getDueDateSuggestions().map(({ label, date }, index) => {
+                const value = formatDateForTask(date, dateFormat);
+                const item = new vscode.CompletionItem(
+                    { label, description: formatDateYYYYMMDD(date) },
+                    vscode.CompletionItemKind.Value
+                );
+                item.insertText = value;
+                item.filterText = `${value} ${label}`;
+                item.sortText = index.toString();
+                item.range = range;
+                return item;
+            });
+        }
+
+        // Headings start with # too
+        const tokenMatch = TEXT_TOKEN_REGEX.exec(before);
+        if (tokenMatch && !/^\s*#/.test(before)) {
+            const [, symbol, partial] = tokenMatch;
+            const range = new vscode.Range(position.translate(0, -partial.length), position);
+            return (await this.getUsedTokens(symbol)).map(([token, count]) => {
+                const item = new vscode.CompletionItem(
+                    token,
+                    symbol === '#' ? vscode.CompletionItemKind.Keyword : vscode.CompletionItemKind.User
+                );
+                item.detail = `Used in ${count} task${count === 1 ? '' : 's'}`;
+                item.range = range;
+                // Most used first
+                item.sortText = (1e6 - count).toString().padStart(7, '0');
+                return item;
+            });
+        }
+
+        return undefined;
+    }
+
+    private getMarkerTemplates(dateFormat: TaskDateFormat): vscode.CompletionItem[] {
+        const today = formatDateForTask(new Date(), dateFormat);
+
+        const todo = new vscode.CompletionItem('TODO', vscode.CompletionItemKind.Snippet);
+        todo.detail = 'Task with priority and difficulty';
+        todo.insertText = new vscode.SnippetString(`TODO \${1|1,2,3|} \${2|1,2,3|} created:${today}=- $0`);
+
+        const due = new vscode.CompletionItem('TODO with due date', vscode.CompletionItemKind.Snippet);
+        due.detail = 'Task with priority, difficulty and due date';
+        due.filterText = 'TODO due';
+        due.insertText = new vscode.SnippetString(`TODO \${1|1,2,3|} \${2|1,2,3|} \${3:${today}} created:${today}=- $0`);
+
+        return [todo, due];
+    }
+
+    /**
+     * Count how often each tag or person appears in the journal's tasks
+     */
+    private async getUsedTokens(symbol: string): Promise<[string, number][]> {
+        const counts = new Map<string, number>();
+        for (const task of await this.scanner.getAllTasks()) {
+            for (const token of symbol === '#' ? task.tags : task.contexts) {
+                counts.set(token, (counts.get(token) ?? 0) + 1);
+            }
+        }
+        return [...counts.entries()];
+    }
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { TaskDateFormat, convertTaskDate } from './dateFormatter';
+import { getReferenceDate } from './taskModel';
+import { mapMarkerDates, parseMarker, serializeMarker } from './taskMarker';
+
+/**
+ * Rewrite the dates of every task marker in the journal to one form.
+ * The changes are shown in the refactor preview and applied as a single,
+ * undoable workspace edit.
+ */
+export async function migrateTaskDates(scanner: TaskScanner): Promise<void> {
+    try {
+        const config = ConfigService.getInstance();
+        const currentFormat = config.getTaskDateFormat();
+        const formats: TaskDateFormat[] = ['YYMMDD', 'YYYY-MM-DD'];
+        
+        const picked = await vscode.window.showQuickPick(
+            formats.map(format => ({
+                label: format,
+                description: format === currentFormat ? 'Current setting' : undefined,
+                format
+            })),
+            { placeHolder: 'Rewrite all task marker dates as' }
+        );
+        if (!picked) {
+            return;
+        }
+        
+        const { edit, changedLines, skippedLines } = await buildMigrationEdit(scanner, picked.format);
+        if (skippedLines > 0) {
+            vscode.window.showWarningMessage(
+                `Skipped ${skippedLines} task markers with dates that don't exist, such as 250431. They are listed in the Problems panel.`
+            );
+        }
+        if (changedLines === 0) {
+            vscode.window.showInformationMessage(`All task markers already use ${picked.format} dates.`);
+            return;
+        }
+        
+        const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+        if (!applied) {
+            return;
+        }
+        
+        // Offer to keep writing new markers in the chosen form
+        if (picked.format !== currentFormat) {
+            const choice = await vscode.window.showInformationMessage(
+                `Converted ${changedLines} task markers to ${picked.format}. Use ${picked.format} for new markers too?`,
+                'Update Setting'
+            );
+            if (choice === 'Update Setting') {
+                await vscode.workspace.getConfiguration('calmdown').update(
+                    'taskDateFormat',
+                    picked.format,
+                    vscode.ConfigurationTarget.Workspace
+                );
+            }
+        } else {
+            vscode.window.showInformationMessage(`Converted ${changedLines} task markers to ${picked.format}.`);
+        }
+    } catch (error) {
+        handleTaskError('Failed to convert task dates',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Collect the marker rewrites for every markdown file in the journal
+ */
+async function buildMigrationEdit(
+    scanner: TaskScanner,
+    format: TaskDateFormat
+): Promise<{ edit: vscode.WorkspaceEdit; changedLines: number; skippedLines: number }> {
+    const edit = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+        label: `Convert task dates to ${format}`,
+        needsConfirmation: true
+    };
+    let changedLines = 0;
+    let skippedLines = 0;
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    
+    const files = await scanner.findMarkdownFiles();
+    for (const file of files) {
+        const document = await vscode.workspace.openTextDocument(file);
+        
+        for (let i = 0; i < document.lineCount; i++) {
+            const line = document.lineAt(i);
+            const marker = parseMarker(line.text, markerOptions);
+            // Leave malformed markers for the user to fix by hand
+            if (!marker || marker.errors.length > 0) {
+                continue;
+            }
+            
+            let changed = false;
+            try {
+                mapMarkerDates(marker, date => {
+                    const converted = convertTaskDate(date, format, getReferenceDate(file.fsPath));
+                    changed = changed || converted !== date;
+                    return converted;
+                });
+            } catch {
+                // A day that doesn't exist would otherwise be moved into the next month
+                skippedLines++;
+                continue;
+            }
+            
+            if (changed) {
+                edit.replace(file, line.range, serializeMarker(marker), metadata);
+                changedLines++;
+            }
+        }
+    }
+    
+    return { edit, changedLines, skippedLines };
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { normalizeDueDate } from './taskModel';
+
+/**
+ * Rewrite the due date phrases in the current note, such as "next friday",
+ * as dates in the configured task date format
+ */
+export async function normalizeNoteTaskDates(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Open a note to normalize its task dates.');
+        return;
+    }
+
+    try {
+        const edits = getNormalizeEdits(editor.document);
+        if (edits.length === 0) {
+            vscode.window.showInformationMessage('No due date phrases found in this note.');
+            return;
+        }
+
+        await editor.edit(editBuilder => {
+            for (const edit of edits) {
+                editBuilder.replace(edit.range, edit.newText);
+            }
+        });
+        vscode.window.showInformationMessage(`Normalized ${edits.length} due date${edits.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+        handleTaskError('Failed to normalize task dates',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Normalize due date phrases as journal notes are saved, when enabled
+ */
+export function normalizeTaskDatesOnSave(event: vscode.TextDocumentWillSaveEvent): void {
+    const config = ConfigService.getInstance();
+    if (!config.getNormalizeDatesOnSave() || !config.isJournalNote(event.document.uri)) {
+        return;
+    }
+    try {
+        const edits = getNormalizeEdits(event.document);
+        if (edits.length > 0) {
+            event.waitUntil(Promise.resolve(edits));
+        }
+    } catch (error) {
+        console.error('Failed to normalize task dates on save:', error);
+    }
+}
+
+/**
+ * Build the line replacements for every due date phrase in a document
+ */
+function getNormalizeEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const config = ConfigService.getInstance();
+    const dateFormat = config.getTaskDateFormat();
+    const markerOptions = config.getMarkerOptions();
+    const edits: vscode.TextEdit[] = [];
+
+    for (let i = 0; i < document.lineCount; i++) {
+        const line = document.lineAt(i);
+        const normalized = normalizeDueDate(line.text, document.uri.fsPath, dateFormat, markerOptions);
+        if (normalized !== null) {
+            edits.push(vscode.TextEdit.replace(line.range, normalized));
+        }
+    }
+    return edits;
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { ParsedMarker, getAttribute, parseMarker } from './taskMarker';
+import { getDaysUntil, getRelativeDateDescription } from './dateFormatter';
+import { getReferenceDate, normalizeDate } from './taskModel';
+import { ConfigService } from '../common/configService';
+
+// Same colors as the priority-1..3 classes of the tasks view
+const PRIORITY_COLORS = [
+    new vscode.ThemeColor('editorInfo.foreground'),
+    new vscode.ThemeColor('editorWarning.foreground'),
+    new vscode.ThemeColor('editorError.foreground')
+];
+
+/**
+ * Decorates task markers in journal notes: markers are colored by priority,
+ * completed tasks are struck through, rolled tasks are greyed out and
+ * overdue tasks are flagged. In badge mode a marker is also shown as a
+ * short badge, such as "P3 · due tomorrow", except on lines with a cursor.
+ */
+export class TaskDecorator implements vscode.Disposable {
+    private readonly priorityTypes = PRIORITY_COLORS.map(color =>
+        vscode.window.createTextEditorDecorationType({ color })
+    );
+    private readonly overdueType = vscode.window.createTextEditorDecorationType({
+        color: new vscode.ThemeColor('errorForeground'),
+        fontWeight: 'bold',
+        after: {
+            color: new vscode.ThemeColor('errorForeground'),
+            fontStyle: 'italic',
+            margin: '0 0 0 1em'
+        }
+    });
+    private readonly completeType = vscode.window.createTextEditorDecorationType({
+        textDecoration: 'line-through',
+        opacity: '0.6'
+    });
+    private readonly rollType = vscode.window.createTextEditorDecorationType({
+        color: new vscode.ThemeColor('descriptionForeground'),
+        opacity: '0.5'
+    });
+    // Hides the raw marker text behind its badge
+    private readonly hiddenType = vscode.window.createTextEditorDecorationType({
+        textDecoration: 'none; display: none;'
+    });
+    private readonly badgeType = vscode.window.createTextEditorDecorationType({
+        before: {
+            border: '1px solid',
+            margin: '0 0.4em 0 0',
+            fontStyle: 'normal'
+        }
+    });
+    private readonly disposables: vscode.Disposable[] = [];
+    private updateTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    constructor() {
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateAll()),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (vscode.window.visibleTextEditors.some(editor => editor.document === e.document)) {
+                    this.scheduleUpdate();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(e => {
+                // Badges move off the lines being edited
+                if (ConfigService.getInstance().getTaskDecorationMode() === 'badge') {
+                    this.update(e.textEditor);
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('calmdown')) {
+                    this.updateAll();
+                }
+            })
+        );
+        this.updateAll();
+    }
+
+    public dispose(): void {
+        clearTimeout(this.updateTimeout);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.getTypes().forEach(type => type.dispose());
+    }
+
+    private getTypes(): vscode.TextEditorDecorationType[] {
+        return [...this.priorityTypes, this.overdueType, this.completeType, this.rollType, this.hiddenType, this.badgeType];
+    }
+
+    /**
+     * Update after typing pauses, rather than on every keystroke
+     */
+    private scheduleUpdate(): void {
+        clearTimeout(this.updateTimeout);
+        this.updateTimeout = setTimeout(() => this.updateAll(), 200);
+    }
+
+    private updateAll(): void {
+        vscode.window.visibleTextEditors.forEach(editor => this.update(editor));
+    }
+
+    private update(editor: vscode.TextEditor): void {
+        const config = ConfigService.getInstance();
+        const mode = config.getTaskDecorationMode();
+        const document = editor.document;
+        const ranges = new Map<vscode.TextEditorDecorationType, vscode.DecorationOptions[]>(
+            this.getTypes().map(type => [type, []])
+        );
+
+        if (mode !== 'off' && document.languageId === 'markdown' && config.isJournalNote(document.uri)) {
+            const markerOptions = config.getMarkerOptions();
+            const cursorLines = new Set(editor.selections.map(selection => selection.active.line));
+            const today = new Date();
+            const reference = getReferenceDate(document.uri.fsPath);
+
+            for (let line = 0; line < document.lineCount; line++) {
+                const text = document.lineAt(line).text;
+                const marker = parseMarker(text, markerOptions);
+                // Malformed markers are left as they are
+                if (!marker || marker.errors.length > 0) {
+                    continue;
+                }
+
+                const markerRange = new vscode.Range(line, marker.range.start, line, marker.range.end);
+                const taskRange = new vscode.Range(line, marker.range.start, line, text.length);
+                // Due date phrases such as "friday" are read as the scanner reads them, and
+                // days that don't exist are left undecorated for the diagnostics to point out
+                const due = normalizeDate(marker.due, reference) ?? '';
+                const overdue = marker.status === 'TODO' && !!due && getDaysUntil(due, today) < 0;
+                const priorityIndex = Math.min(Math.max(marker.priority, 1), PRIORITY_COLORS.length) - 1;
+                const color = overdue ? new vscode.ThemeColor('errorForeground') : PRIORITY_COLORS[priorityIndex];
+
+                if (marker.status === 'COMPLETE') {
+                    ranges.get(this.completeType)!.push({ range: taskRange });
+                } else if (marker.status === 'ROLL') {
+                    ranges.get(this.rollType)!.push({ range: taskRange });
+                } else if (overdue) {
+                    ranges.get(this.overdueType)!.push({
+                        range: markerRange,
+                        renderOptions: mode === 'badge' ? undefined : {
+                            after: { contentText: getRelativeDateDescription(due, today) }
+                        }
+                    });
+                } else {
+                    ranges.get(this.priorityTypes[priorityIndex])!.push({ range: markerRange });
+                }
+
+                // Checkboxes keep their fields in the text, so only markers become badges
+                if (mode === 'badge' && marker.style !== 'checkbox' && !cursorLines.has(line)) {
+                    ranges.get(this.hiddenType)!.push({ range: markerRange });
+                    ranges.get(this.badgeType)!.push({
+                        range: markerRange,
+                        hoverMessage: text.substring(marker.range.start, marker.range.end),
+                        renderOptions: { before: { contentText: describeBadge(marker, due, today), color, borderColor: color } }
+                    });
+                }
+            }
+        }
+
+        for (const [type, options] of ranges) {
+            editor.setDecorations(type, options);
+        }
+    }
+}
+
+/**
+ * Summarise a marker for its badge, e.g. "P3 · due tomorrow"
+ */
+function describeBadge(marker: ParsedMarker, due: string, today: Date): string {
+    const parts = [`P${marker.priority}`];
+    if (marker.status === 'COMPLETE') {
+        parts.push('done');
+    } else if (marker.status === 'ROLL') {
+        const rolledTo = getAttribute(marker, 'to');
+        parts.push(rolledTo ? `rolled to ${rolledTo}` : 'rolled');
+    } else if (due) {
+        const description = getRelativeDateDescription(due, today);
+        parts.push(description.charAt(0).toLowerCase() + description.substring(1));
+    }
+    return parts.join(' · ');
+}
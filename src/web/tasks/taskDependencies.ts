@@ -0,0 +1,61 @@
+import { Task } from './taskModel';
+import { getTaskHistory } from './taskHistory';
+
+/**
+ * Find the task an ID refers to. Rolled tasks are followed to their latest
+ * occurrence, so a reference keeps working after its task has been rolled over.
+ */
+export function resolveTaskReference(id: string, allTasks: Task[]): Task | undefined {
+    const task = allTasks.find(candidate => candidate.id === id);
+    if (!task) {
+        return undefined;
+    }
+    const history = getTaskHistory(task, allTasks);
+    return history[history.length - 1];
+}
+
+/**
+ * Get the tasks a task is waiting on that are not complete yet.
+ * References to tasks that no longer exist are ignored.
+ */
+export function getOpenBlockers(task: Task, allTasks: Task[]): Task[] {
+    const blockers: Task[] = [];
+    for (const id of task.blockedBy) {
+        const blocker = resolveTaskReference(id, allTasks);
+        if (blocker && blocker.status !== 'COMPLETE' && !blockers.includes(blocker)) {
+            blockers.push(blocker);
+        }
+    }
+    return blockers;
+}
+
+/**
+ * Set `blocked` on every open task that is waiting on an incomplete task
+ */
+export function markBlockedTasks(allTasks: Task[]): void {
+    for (const task of allTasks) {
+        task.blocked = task.status === 'TODO' && task.blockedBy.length > 0
+            && getOpenBlockers(task, allTasks).length > 0;
+    }
+}
+
+/**
+ * Get the open tasks that some tasks, completed together, were the last
+ * things blocking. Call this with the task list from after they were
+ * completed: a dependent counts as unblocked once none of its blockers is
+ * still open, other than occurrences of the completed tasks.
+ */
+export function getUnblockedTasks(completed: Task[], allTasks: Task[]): Task[] {
+    // Dependents may refer to any occurrence of the tasks
+    const occurrences = completed.flatMap(task => getTaskHistory(task, allTasks));
+    const ids = new Set(occurrences.map(task => task.id).filter((id): id is string => !!id));
+    if (ids.size === 0) {
+        return [];
+    }
+
+    return allTasks.filter(task =>
+        task.status === 'TODO' &&
+        task.blockedBy.some(id => ids.has(id)) &&
+        getOpenBlockers(task, allTasks).every(blocker => occurrences.includes(blocker))
+    );
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { formatDateForTask } from './dateFormatter';
+import { getReferenceDate } from './taskModel';
+import { TaskProblem, findTaskProblems } from './taskProblems';
+import { getDocumentLines } from './taskNavigator';
+
+const SOURCE = 'Calmdown';
+
+/**
+ * Reports task lines in journal notes that would otherwise be dropped or
+ * misread, see `findTaskProblems`. Notes are checked as they are opened
+ * and edited, and the whole journal on command.
+ */
+export class TaskDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('calmdown');
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly updateTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+    constructor(private readonly scanner: TaskScanner) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.scheduleUpdate(e.document)),
+            vscode.workspace.onDidDeleteFiles(e => e.files.forEach(file => this.collection.delete(file))),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('calmdown')) {
+                    this.collection.clear();
+                    vscode.workspace.textDocuments.forEach(document => this.update(document));
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    public dispose(): void {
+        this.updateTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+
+    /**
+     * Check every note in the journal and summarise what was found
+     */
+    public async checkJournal(): Promise<void> {
+        try {
+            const files = await this.scanner.findMarkdownFiles();
+            let problemCount = 0;
+            let noteCount = 0;
+
+            for (const file of files) {
+                const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+                const diagnostics = getDiagnostics(file, text.split(/\r?\n/));
+                this.collection.set(file, diagnostics);
+                if (diagnostics.length > 0) {
+                    problemCount += diagnostics.length;
+                    noteCount++;
+                }
+            }
+
+            if (problemCount === 0) {
+                vscode.window.showInformationMessage(`No task problems found in ${files.length} notes.`);
+                return;
+            }
+            const choice = await vscode.window.showWarningMessage(
+                `Found ${problemCount} task problem${problemCount === 1 ? '' : 's'} in ${noteCount} note${noteCount === 1 ? '' : 's'}.`,
+                'Show Problems'
+            );
+            if (choice === 'Show Problems') {
+                await vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        } catch (error) {
+            handleTaskError('Failed to check journal for task problems',
+                         error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Recheck after typing pauses, rather than on every keystroke
+     */
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.updateTimeouts.get(key));
+        this.updateTimeouts.set(key, setTimeout(() => {
+            this.updateTimeouts.delete(key);
+            this.update(document);
+        }, 300));
+    }
+
+    private update(document: vscode.TextDocument): void {
+        const config = ConfigService.getInstance();
+        if (document.languageId !== 'markdown' || !config.isJournalNote(document.uri)) {
+            return;
+        }
+        // The journal-wide check still runs on command when live checking is off
+        if (!config.getTaskDiagnostics()) {
+            this.collection.delete(document.uri);
+            return;
+        }
+        this.collection.set(document.uri, getDiagnostics(document.uri, getDocumentLines(document)));
+    }
+}
+
+/**
+ * Quick fixes for the problems reported by `TaskDiagnostics`
+ */
+export class TaskProblemActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== SOURCE) {
+                continue;
+            }
+            // Problems are found again rather than kept, so fixes always match the current text
+            const line = diagnostic.range.start.line;
+            const problem = getProblemFinder(document.uri)(document.lineAt(line).text).find(candidate =>
+                candidate.code === diagnostic.code && candidate.range.start === diagnostic.range.start.character
+            );
+
+            for (const fix of problem?.fixes ?? []) {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = problem!.fixes.length === 1;
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, new vscode.Range(line, fix.range.start, line, fix.range.end), fix.newText);
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+}
+
+/**
+ * Get a checker for the lines of a note
+ */
+function getProblemFinder(uri: vscode.Uri): (line: string) => TaskProblem[] {
+    const config = ConfigService.getInstance();
+    const markerOptions = config.getMarkerOptions();
+    // Completed tasks without a date are taken to have been done on the note's day
+    const doneDate = formatDateForTask(getReferenceDate(uri.fsPath), config.getTaskDateFormat());
+    return line => findTaskProblems(line, markerOptions, doneDate);
+}
+
+function getDiagnostics(uri: vscode.Uri, lines: string[]): vscode.Diagnostic[] {
+    const findProblems = getProblemFinder(uri);
+    const diagnostics: vscode.Diagnostic[] = [];
+    lines.forEach((text, line) => {
+        for (const problem of findProblems(text)) {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(line, problem.range.start, line, problem.range.end),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = SOURCE;
+            diagnostic.code = problem.code;
+            diagnostics.push(diagnostic);
+        }
+    });
+    return diagnostics;
+}
@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { getNoteDate, getReferenceDate, parseTasksInLines } from './taskModel';
+import { TaskMarker, TaskStatus, parseMarker, serializeMarker } from './taskMarker';
+import { formatDateForTask, formatDateYYYYMMDD, getDueDateSuggestions, parseTaskDate } from './dateFormatter';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { getDocumentLines, getSelectedLines, toggleTaskState } from './taskNavigator';
+import { rollSelectedTasksToToday } from './taskRollover';
+import { TaskScanner } from './taskScanner';
+import { postponeDueDate, readDueDate, stepLevel } from './taskFields';
+
+/**
+ * Actions on task lines. Each one works on the line it is given, as
+ * CodeLens passes it, or otherwise on the line under the cursor. Field
+ * edits also work across multi-cursor and multi-line selections.
+ */
+
+// Tasks each action applies to. Due dates are only moved on open tasks,
+// since a completed task's due date records when it was meant to be done.
+const OPEN = ['TODO'] as const;
+const OPEN_OR_COMPLETED = ['TODO', 'COMPLETE'] as const;
+
+/**
+ * Complete an open task or reopen a completed one
+ */
+export async function toggleTaskAt(scanner: TaskScanner, uri?: vscode.Uri, line?: number): Promise<void> {
+    const target = await resolveTaskLine(uri, line);
+    if (!target) {
+        return;
+    }
+    const position = new vscode.Position(target.line, 0);
+    target.editor.selection = new vscode.Selection(position, position);
+    await toggleTaskState(scanner);
+}
+
+/**
+ * Pick a new due date for the selected open tasks, or remove it
+ */
+export async function rescheduleTask(uri?: vscode.Uri, line?: number): Promise<void> {
+    const target = await resolveTaskLines(uri, line);
+    const markers = target && getEditableMarkers(target.editor.document, target.lines, OPEN);
+    if (!target || !markers) {
+        return;
+    }
+    const version = target.editor.document.version;
+    const [first] = markers.values();
+
+    const today = new Date();
+    const choices: (vscode.QuickPickItem & { date?: Date | null })[] = getDueDateSuggestions(today).map(({ label, date }) => ({
+        label: label.charAt(0).toUpperCase() + label.substring(1),
+        description: formatDateYYYYMMDD(date),
+        date
+    }));
+    choices.push({ label: 'Pick a date...' });
+    if ([...markers.values()].some(marker => marker.due)) {
+        choices.push({ label: 'Remove due date', date: null });
+    }
+
+    const placeHolder = markers.size === 1 ? `Reschedule "${first.text}"` : `Reschedule ${markers.size} tasks`;
+    const choice = await vscode.window.showQuickPick(choices, { placeHolder });
+    if (!choice) {
+        return;
+    }
+
+    let date = choice.date;
+    if (date === undefined) {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Due date (YYYY-MM-DD or YYMMDD)',
+            value: formatDateYYYYMMDD(readDueDate(first.due, getReferenceDate(target.editor.document.uri.fsPath)) ?? today),
+            validateInput: value => readDate(value) ? undefined : 'Enter a date as YYYY-MM-DD or YYMMDD'
+        });
+        if (input === undefined) {
+            return;
+        }
+        date = readDate(input);
+    }
+
+    const due = date ? formatDateForTask(date, ConfigService.getInstance().getTaskDateFormat()) : '';
+    markers.forEach(marker => marker.due = due);
+    await replaceMarkers(target.editor, version, markers);
+}
+
+/**
+ * Move the due date of the selected open tasks on by a number of days,
+ * see `postponeDueDate`
+ */
+export async function postponeTask(days: number, uri?: vscode.Uri, line?: number): Promise<void> {
+    const target = await resolveTaskLines(uri, line);
+    const markers = target && getEditableMarkers(target.editor.document, target.lines, OPEN);
+    if (!target || !markers) {
+        return;
+    }
+
+    const reference = getReferenceDate(target.editor.document.uri.fsPath);
+    const dateFormat = ConfigService.getInstance().getTaskDateFormat();
+    markers.forEach(marker => marker.due = postponeDueDate(marker.due, days, reference, dateFormat));
+    await replaceMarkers(target.editor, target.editor.document.version, markers);
+}
+
+/**
+ * Raise or lower the priority of the selected tasks by one, staying within 1 to 3
+ */
+export function changeTaskPriority(delta: number, uri?: vscode.Uri, line?: number): Promise<void> {
+    return changeTaskLevel('priority', delta, uri, line);
+}
+
+/**
+ * Raise or lower the difficulty of the selected tasks by one, staying within 1 to 3
+ */
+export function changeTaskDifficulty(delta: number, uri?: vscode.Uri, line?: number): Promise<void> {
+    return changeTaskLevel('difficulty', delta, uri, line);
+}
+
+async function changeTaskLevel(
+    field: 'priority' | 'difficulty',
+    delta: number,
+    uri?: vscode.Uri,
+    line?: number
+): Promise<void> {
+    const target = await resolveTaskLines(uri, line);
+    const markers = target && getEditableMarkers(target.editor.document, target.lines, OPEN_OR_COMPLETED);
+    if (!target || !markers) {
+        return;
+    }
+
+    // Tasks already at the limit are left as they are
+    for (const [taskLine, marker] of markers) {
+        const value = stepLevel(marker[field], delta);
+        if (value === marker[field]) {
+            markers.delete(taskLine);
+        } else {
+            marker[field] = value;
+        }
+    }
+    if (markers.size === 0) {
+        const limit = delta > 0 ? 'highest' : 'lowest';
+        vscode.window.showInformationMessage(
+            target.lines.length === 1 ? `The task already has the ${limit} ${field}.` : `The tasks already have the ${limit} ${field}.`
+        );
+        return;
+    }
+    await replaceMarkers(target.editor, target.editor.document.version, markers);
+}
+
+/**
+ * Roll a single open task, with its open subtasks, to today's note
+ */
+export async function rollTaskToToday(uri?: vscode.Uri, line?: number): Promise<void> {
+    const target = await resolveTaskLine(uri, line);
+    if (!target) {
+        return;
+    }
+
+    const document = target.editor.document;
+    const documentTasks = parseTasksInLines(
+        getDocumentLines(document), document.uri.fsPath, ConfigService.getInstance().getMarkerOptions()
+    );
+    const task = documentTasks.find(candidate => candidate.line === target.line);
+    if (!task || task.status !== 'TODO') {
+        vscode.window.showWarningMessage('Place the cursor on an open task to roll it to today.');
+        return;
+    }
+    if (getNoteDate(document.uri.fsPath) === formatDateYYYYMMDD(new Date())) {
+        vscode.window.showInformationMessage('This task is already in today\'s note.');
+        return;
+    }
+
+    await rollSelectedTasksToToday([task], documentTasks);
+}
+
+/**
+ * Find the editor and line an action works on
+ */
+async function resolveTaskLine(
+    uri?: vscode.Uri,
+    line?: number
+): Promise<{ editor: vscode.TextEditor; line: number } | undefined> {
+    try {
+        if (uri && line !== undefined) {
+            const editor = await vscode.window.showTextDocument(uri, { preserveFocus: false });
+            return line < editor.document.lineCount ? { editor, line } : undefined;
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'markdown') {
+            return undefined;
+        }
+        return { editor, line: editor.selection.active.line };
+    } catch (error) {
+        handleTaskError('Could not open the task', error instanceof Error ? error : new Error(String(error)));
+        return undefined;
+    }
+}
+
+/**
+ * Find the editor and lines an action works on: the line it is given, or
+ * every line under a cursor or selection
+ */
+async function resolveTaskLines(
+    uri?: vscode.Uri,
+    line?: number
+): Promise<{ editor: vscode.TextEditor; lines: number[] } | undefined> {
+    const target = await resolveTaskLine(uri, line);
+    if (!target) {
+        return undefined;
+    }
+    return { editor: target.editor, lines: uri && line !== undefined ? [target.line] : getSelectedLines(target.editor) };
+}
+
+/**
+ * Read the task on a line, warning if there isn't one with one of the statuses
+ */
+function getEditableMarker(
+    document: vscode.TextDocument,
+    line: number,
+    statuses: readonly TaskStatus[]
+): TaskMarker | undefined {
+    const marker = parseMarker(document.lineAt(line).text, ConfigService.getInstance().getMarkerOptions());
+    if (!marker || !statuses.includes(marker.status)) {
+        vscode.window.showWarningMessage(`Place the cursor on an ${describeStatuses(statuses)} task.`);
+        return undefined;
+    }
+    if (marker.errors.length > 0) {
+        vscode.window.showWarningMessage(`Cannot edit malformed task marker: ${marker.errors[0].message}`);
+        return undefined;
+    }
+    return marker;
+}
+
+/**
+ * Read the tasks with one of the statuses on several lines by line number.
+ * Other lines in a multi-line selection are skipped.
+ */
+function getEditableMarkers(
+    document: vscode.TextDocument,
+    lines: number[],
+    statuses: readonly TaskStatus[]
+): Map<number, TaskMarker> | undefined {
+    if (lines.length === 1) {
+        const marker = getEditableMarker(document, lines[0], statuses);
+        return marker && new Map([[lines[0], marker]]);
+    }
+
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    const markers = new Map<number, TaskMarker>();
+    for (const line of lines) {
+        const marker = parseMarker(document.lineAt(line).text, markerOptions);
+        if (marker && statuses.includes(marker.status) && marker.errors.length === 0) {
+            markers.set(line, marker);
+        }
+    }
+    if (markers.size === 0) {
+        vscode.window.showWarningMessage(`No ${describeStatuses(statuses)} tasks are selected.`);
+        return undefined;
+    }
+    return markers;
+}
+
+function describeStatuses(statuses: readonly TaskStatus[]): string {
+    return statuses.includes('COMPLETE') ? 'open or completed' : 'open';
+}
+
+/**
+ * Write changed markers back to their lines in one edit, so a single undo
+ * reverts them all, unless the note changed meanwhile
+ */
+async function replaceMarkers(editor: vscode.TextEditor, version: number, markers: Map<number, TaskMarker>): Promise<void> {
+    if (editor.document.version !== version) {
+        vscode.window.showWarningMessage('The note changed before the task could be updated. Please try again.');
+        return;
+    }
+    try {
+        await editor.edit(editBuilder => {
+            for (const [line, marker] of markers) {
+                editBuilder.replace(editor.document.lineAt(line).range, serializeMarker(marker));
+            }
+        });
+    } catch (error) {
+        handleTaskError('Failed to update task', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+function readDate(value: string): Date | null {
+    const trimmed = value.trim();
+    if (!/^(\d{6}|\d{4}-\d{2}-\d{2})$/.test(trimmed)) {
+        return null;
+    }
+    try {
+        // Rejects dates like 2025-02-31 that would roll into the next month
+        return parseTaskDate(trimmed);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { handleTaskError } from '../common/errorHandler';
+import { filterTasksByQuery, parseTaskQuery, tasksToCsv, tasksToJson, toExportedTasks } from './taskReport';
+
+/**
+ * Write the journal's tasks, open, completed and rolled, to a JSON or CSV
+ * file for reporting. The tasks can be narrowed down with a query, see
+ * `TaskQuery` for the filters it supports.
+ */
+export async function exportTasks(scanner: TaskScanner): Promise<void> {
+    try {
+        const format = await vscode.window.showQuickPick([
+            { label: 'JSON', extension: 'json' },
+            { label: 'CSV', extension: 'csv' }
+        ], { placeHolder: 'Export tasks as' });
+        if (!format) {
+            return;
+        }
+
+        const queryText = await vscode.window.showInputBox({
+            prompt: 'Filter the tasks to export, or leave empty to export all of them',
+            placeHolder: 'status:todo,complete from:2025-03-01 to:2025-03-31 date:due priority:>=2 folder:Journal/2025',
+            validateInput: value => parseTaskQuery(value).errors.join('; ') || undefined
+        });
+        if (queryText === undefined) {
+            return;
+        }
+
+        const { query } = parseTaskQuery(queryText);
+        const tasks = filterTasksByQuery(
+            await scanner.getAllTasks(),
+            query,
+            filePath => vscode.workspace.asRelativePath(filePath, false)
+        );
+        if (tasks.length === 0) {
+            vscode.window.showInformationMessage('No tasks match that filter.');
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `tasks.${format.extension}`) : undefined,
+            filters: { [format.label]: [format.extension] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const exported = toExportedTasks(tasks);
+        const content = format.extension === 'csv' ? tasksToCsv(exported) : tasksToJson(exported);
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Exported ${tasks.length} tasks to ${vscode.workspace.asRelativePath(target)}.`);
+    } catch (error) {
+        handleTaskError('Failed to export tasks',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
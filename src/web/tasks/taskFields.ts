@@ -0,0 +1,45 @@
+import { TaskDateFormat, formatDateForTask, parseTaskDate } from './dateFormatter';
+
+/**
+ * The field changes made by the task editing commands, see `taskEditing.ts`
+ */
+
+// Priority and difficulty run from 1 (low) to 3 (high)
+const MAX_LEVEL = 3;
+
+/**
+ * Raise or lower a priority or difficulty, staying within 1 to 3
+ */
+export function stepLevel(value: number, delta: number): number {
+    return Math.min(MAX_LEVEL, Math.max(1, value + delta));
+}
+
+/**
+ * Read a task's due date, or null if it has none or it can't be read
+ * @param reference date phrases are read relative to, usually the note's date
+ */
+export function readDueDate(due: string | undefined, reference: Date): Date | null {
+    if (!due) {
+        return null;
+    }
+    try {
+        return parseTaskDate(due, reference);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Move a due date on by a number of days. Tasks without a readable due date
+ * become due that many days from today.
+ */
+export function postponeDueDate(
+    due: string | undefined,
+    days: number,
+    reference: Date,
+    format: TaskDateFormat,
+    today: Date = new Date()
+): string {
+    const from = readDueDate(due, reference) ?? today;
+    return formatDateForTask(new Date(from.getFullYear(), from.getMonth(), from.getDate() + days), format);
+}
@@ -0,0 +1,105 @@
+import { Task, getNoteDate } from './taskModel';
+import { formatDateShort, parseNoteDate, parseTaskDate } from './dateFormatter';
+
+/**
+ * Follow a task's rollover chain across daily notes.
+ * Returns every occurrence of the task, oldest first.
+ */
+export function getTaskHistory(task: Task, allTasks: Task[]): Task[] {
+    // Index tasks by the date of the note they live in
+    const tasksByNote = new Map<string, Task[]>();
+    for (const candidate of allTasks) {
+        const noteDate = getNoteDate(candidate.filePath);
+        if (noteDate) {
+            if (!tasksByNote.has(noteDate)) {
+                tasksByNote.set(noteDate, []);
+            }
+            tasksByNote.get(noteDate)!.push(candidate);
+        }
+    }
+
+    const visited = new Set<Task>([task]);
+    const history: Task[] = [task];
+
+    // Walk backwards through the notes the task was rolled from
+    let current = task;
+    while (current.rolledFrom) {
+        const noteDate = getNoteDate(current.filePath);
+        const previous = (tasksByNote.get(current.rolledFrom) || []).find(candidate =>
+            candidate.status === 'ROLL' &&
+            candidate.text === current.text &&
+            (!candidate.rolledTo || candidate.rolledTo === noteDate) &&
+            !visited.has(candidate)
+        );
+        if (!previous) {
+            break;
+        }
+        visited.add(previous);
+        history.unshift(previous);
+        current = previous;
+    }
+
+    // Walk forwards through the notes the task was rolled into
+    current = task;
+    while (current.status === 'ROLL' && current.rolledTo) {
+        const noteDate = getNoteDate(current.filePath);
+        const next = (tasksByNote.get(current.rolledTo) || []).find(candidate =>
+            candidate.text === current.text &&
+            (!candidate.rolledFrom || candidate.rolledFrom === noteDate) &&
+            !visited.has(candidate)
+        );
+        if (!next) {
+            break;
+        }
+        visited.add(next);
+        history.push(next);
+        current = next;
+    }
+
+    return history;
+}
+
+/**
+ * Summarise a task history, e.g. "created 3 Mar, rolled 4 times, completed 12 Mar"
+ */
+export function describeTaskHistory(history: Task[]): string {
+    if (history.length === 0) {
+        return '';
+    }
+
+    const parts: string[] = [];
+
+    // Prefer the recorded creation date over the date of the first note
+    const first = history[0];
+    const createdNoteDate = getNoteDate(first.filePath);
+    if (first.createdDate) {
+        parts.push(`created ${describeTaskDate(first.createdDate)}`);
+    } else if (createdNoteDate) {
+        parts.push(`created ${formatDateShort(parseNoteDate(createdNoteDate))}`);
+    }
+
+    const rollCount = history.filter(task => task.status === 'ROLL').length;
+    if (rollCount > 0) {
+        parts.push(`rolled ${rollCount} time${rollCount > 1 ? 's' : ''}`);
+    }
+
+    const last = history[history.length - 1];
+    if (last.status === 'COMPLETE') {
+        parts.push(last.completedDate ? `completed ${describeTaskDate(last.completedDate)}` : 'completed');
+    } else if (last.status === 'TODO') {
+        parts.push('open');
+    }
+
+    return parts.join(', ');
+}
+
+/**
+ * Format a YYMMDD task date for a history summary
+ */
+function describeTaskDate(dateStr: string): string {
+    try {
+        return formatDateShort(parseTaskDate(dateStr));
+    } catch {
+        return dateStr;
+    }
+}
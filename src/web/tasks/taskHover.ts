@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { getNoteUri } from '../fileManager';
+import { Task, parseTask } from './taskModel';
+import { formatDateLong, parseNoteDate } from './dateFormatter';
+import { parseMarker } from './taskMarker';
+import { buildNotePreview, buildTaskCard } from './hoverCards';
+import { fileExists } from './taskWeeklyReview';
+
+/**
+ * Hover cards in notes, see `hoverCards.ts` for what they show
+ */
+export class TaskHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly scanner: TaskScanner) { }
+
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const config = ConfigService.getInstance();
+        const markerOptions = config.getMarkerOptions();
+        const lineText = document.lineAt(position.line).text;
+        const marker = parseMarker(lineText, markerOptions);
+        const onMarker = !!marker && position.character >= marker.range.start && position.character < marker.range.end;
+
+        // Dates in the marker fields belong to the task card
+        const dateRange = document.getWordRangeAtPosition(position, /\d{4}-\d{2}-\d{2}/);
+        if (dateRange && !onMarker) {
+            const content = await this.previewNote(document.getText(dateRange));
+            if (content) {
+                return new vscode.Hover(content, dateRange);
+            }
+        }
+
+        if (!config.isJournalNote(document.uri)) {
+            return undefined;
+        }
+        const task = parseTask(lineText, document.uri.fsPath, position.line, markerOptions);
+        if (!task) {
+            return undefined;
+        }
+        return new vscode.Hover(await this.describeTask(task), document.lineAt(position.line).range);
+    }
+
+    private async describeTask(task: Task): Promise<vscode.MarkdownString> {
+        // The scanner's cache is kept up to date as notes change, so this doesn't rescan the journal
+        const card = buildTaskCard(task, await this.scanner.getAllTasks());
+        const markdown = new vscode.MarkdownString();
+        card.lines.forEach(line => markdown.appendMarkdown(`${line}\n\n`));
+        if (card.originDate) {
+            const note = await findNote(card.originDate);
+            markdown.appendMarkdown(`First written in ${note ? `[${card.originDate}](${note.toString()})` : card.originDate}\n\n`);
+        }
+        if (card.history) {
+            markdown.appendMarkdown(`History: ${card.history}`);
+        }
+        return markdown;
+    }
+
+    /**
+     * Show the start of the note for a date and its open tasks
+     */
+    private async previewNote(date: string): Promise<vscode.MarkdownString | undefined> {
+        let day: Date;
+        try {
+            day = parseNoteDate(date);
+        } catch {
+            return undefined;
+        }
+
+        const file = await findNote(date);
+        const markdown = new vscode.MarkdownString();
+        if (!file) {
+            markdown.appendMarkdown(`No note for ${formatDateLong(day)}`);
+            return markdown;
+        }
+
+        const lines = new TextDecoder().decode(await vscode.workspace.fs.readFile(file)).split(/\r?\n/);
+        const preview = buildNotePreview(date, lines, file.fsPath, ConfigService.getInstance().getMarkerOptions());
+
+        markdown.appendMarkdown('**[');
+        markdown.appendText(preview.title);
+        markdown.appendMarkdown(`](${file.toString()})**\n\n`);
+        if (preview.excerpt.length > 0) {
+            markdown.appendCodeblock(preview.excerpt.join('\n'), 'markdown');
+        }
+
+        const openCount = preview.openTasks.length + preview.moreTasks;
+        if (openCount > 0) {
+            markdown.appendMarkdown(`\n\n${openCount} open task${openCount === 1 ? '' : 's'}:\n\n`);
+            for (const text of preview.openTasks) {
+                markdown.appendMarkdown('- ');
+                markdown.appendText(text);
+                markdown.appendMarkdown('\n');
+            }
+            if (preview.moreTasks > 0) {
+                markdown.appendMarkdown(`- …and ${preview.moreTasks} more\n`);
+            }
+        } else {
+            markdown.appendMarkdown('\n\nNo open tasks');
+        }
+        return markdown;
+    }
+}
+
+/**
+ * Get the note for a date, if it exists
+ */
+async function findNote(date: string): Promise<vscode.Uri | undefined> {
+    const uri = getNoteUri(date);
+    return uri && await fileExists(uri) ? uri : undefined;
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { createNote } from '../fileManager';
+import { getNoteDate } from './taskModel';
+import { findSectionEnd, getDocumentLines } from './taskNavigator';
+import {
+    CalendarNote,
+    buildICalendar,
+    formatAgendaLine,
+    getEventDays,
+    parseICalendarEvents
+} from './iCalendar';
+
+/**
+ * Write the journal's tasks, and optionally its daily notes, to an .ics file
+ * that a calendar app can import or subscribe to
+ */
+export async function exportICalendar(scanner: TaskScanner): Promise<void> {
+    try {
+        const config = ConfigService.getInstance();
+        const tasks = await scanner.getAllTasks();
+        const notes = config.getIcsIncludeNotes() ? await collectNotes(scanner) : [];
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'journal.ics') : undefined,
+            filters: { 'iCalendar': ['ics'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = buildICalendar(tasks, notes);
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Exported the journal to ${vscode.workspace.asRelativePath(target)}.`);
+    } catch (error) {
+        handleTaskError('Failed to export the journal to iCalendar',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Add the events in an .ics file to the daily notes of the days they fall on,
+ * under an "Agenda" section. Notes are created from the template as needed,
+ * and events already listed are not added again.
+ */
+export async function importICalendar(): Promise<void> {
+    try {
+        const [source] = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'iCalendar': ['ics'] },
+            openLabel: 'Import'
+        }) ?? [];
+        if (!source) {
+            return;
+        }
+
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(source));
+        const events = parseICalendarEvents(content);
+        if (events.length === 0) {
+            vscode.window.showInformationMessage('No events found in that file.');
+            return;
+        }
+
+        // Group agenda lines by day, in time order
+        events.sort((a, b) => a.start.getTime() - b.start.getTime());
+        const linesByDay = new Map<string, string[]>();
+        for (const event of events) {
+            for (const day of getEventDays(event)) {
+                if (!linesByDay.has(day)) {
+                    linesByDay.set(day, []);
+                }
+                linesByDay.get(day)!.push(formatAgendaLine(event));
+            }
+        }
+
+        let addedCount = 0;
+        let noteCount = 0;
+        for (const [day, lines] of linesByDay) {
+            const noteUri = await createNote(day, undefined, { reveal: false });
+            if (!noteUri) {
+                continue;
+            }
+            const added = await addToAgenda(await vscode.workspace.openTextDocument(noteUri), lines);
+            addedCount += added;
+            noteCount += added > 0 ? 1 : 0;
+        }
+
+        vscode.window.showInformationMessage(
+            addedCount > 0
+                ? `Added ${addedCount} events to ${noteCount} daily note${noteCount === 1 ? '' : 's'}.`
+                : 'All events are already in the journal.'
+        );
+    } catch (error) {
+        handleTaskError('Failed to import iCalendar events',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Find the daily notes in the journal and their titles
+ */
+async function collectNotes(scanner: TaskScanner): Promise<CalendarNote[]> {
+    const notes: CalendarNote[] = [];
+    for (const file of await scanner.findMarkdownFiles()) {
+        const date = getNoteDate(file.fsPath);
+        if (!date) {
+            continue;
+        }
+        const document = await vscode.workspace.openTextDocument(file);
+        const heading = getDocumentLines(document).find(line => line.startsWith('# '));
+        notes.push({ date, title: heading ? heading.substring(2).trim() : `Journal ${date}` });
+    }
+    return notes;
+}
+
+/**
+ * Add agenda lines to a note, creating the section before the first other
+ * section if needed, and save it
+ * @returns the number of lines added
+ */
+async function addToAgenda(document: vscode.TextDocument, lines: string[]): Promise<number> {
+    const existing = new Set(getDocumentLines(document).map(line => line.trim()));
+    const newLines = lines.filter((line, index) => !existing.has(line) && lines.indexOf(line) === index);
+    if (newLines.length === 0) {
+        return 0;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const text = newLines.join('\n');
+    const sectionEnd = findSectionEnd(document, '## Agenda');
+    if (sectionEnd) {
+        edit.insert(document.uri, sectionEnd, sectionEnd.character > 0 ? `\n${text}` : `${text}\n`);
+    } else {
+        const firstSection = getDocumentLines(document).findIndex(line => line.startsWith('## '));
+        if (firstSection >= 0) {
+            edit.insert(document.uri, new vscode.Position(firstSection, 0), `## Agenda\n${text}\n\n`);
+        } else {
+            const end = document.lineAt(document.lineCount - 1).range.end;
+            edit.insert(document.uri, end, `\n\n## Agenda\n${text}\n`);
+        }
+    }
+
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+    return newLines.length;
+}
@@ -1,19 +1,20 @@
 import * as vscode from 'vscode';
 import { toggleTaskState as toggleTask, navigateToTask } from './taskNavigator';
 import { rollTasksToToday as rollTasks } from './taskRollover';
+import { TaskScanner } from './taskScanner';
 
 /**
  * @deprecated Use toggleTaskState from taskNavigator.ts instead
  */
-export async function toggleTaskState(): Promise<void> {
-    return toggleTask();
+export async function toggleTaskState(scanner: TaskScanner): Promise<void> {
+    return toggleTask(scanner);
 }
 
 /**
  * @deprecated Use rollTasksToToday from taskRollover.ts instead
  */
-export async function rollTasksToToday(): Promise<void> {
-    return rollTasks();
+export async function rollTasksToToday(scanner: TaskScanner): Promise<void> {
+    return rollTasks(scanner);
 }
 
 // Export functions from the new files for backwards compatibility
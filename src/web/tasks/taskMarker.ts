@@ -0,0 +1,547 @@
+import { parseRecurrence } from './taskRecurrence';
+import { parseNaturalDate } from './dateFormatter';
+
+/**
+ * Grammar for task markers.
+ *
+ * A marker sits anywhere on a line and looks like:
+ *
+ *     -=STATUS priority difficulty [due] key:value ...=- task text
+ *
+ * Task dates are written as YYMMDD or YYYY-MM-DD. The due date may also be
+ * a phrase such as `next friday` or `in 3 days`, see `parseNaturalDate`;
+ * phrases are kept as written until the date normaliser rewrites them.
+ *
+ * Priority and difficulty are required, the due date is optional. Any
+ * `key:value` tokens that follow them are kept as attributes so that lines
+ * always survive a parse/serialize round trip, even when they carry fields
+ * this version of the grammar does not interpret.
+ *
+ * Known attributes:
+ * - `created:<date>` date the task was written down
+ * - `done:<date>` date the task was completed
+ * - `from:YYYY-MM-DD` note a rolled task came from
+ * - `to:YYYY-MM-DD` note a ROLL task was moved into
+ * - `every:<rule>` repeat the task when it is completed, see `parseRecurrence`
+ * - `blocked-by:<id>,<id>` IDs of tasks that must be completed first
+ *
+ * Task text may carry `#tag`, `@context` and `+project` tokens, which are
+ * read by `parseTextTokens`.
+ *
+ * A task can end with a block-reference-style ID, e.g. `... Call plumber ^k3x9q2`.
+ * The ID stays with the task as its line moves, so it is used to find the
+ * task again after the file has been edited.
+ *
+ * Every feature that reads or writes markers must go through
+ * `parseMarker` and `serializeMarker`.
+ *
+ * When enabled, GitHub-style checkboxes are read as tasks too, with the
+ * marker fields written inline after the text:
+ *
+ *     - [ ] task text p:2 d:3 due:250414 key:value ... ^id
+ *
+ * `[x]` is COMPLETE and `[>]` is ROLL. Priority and difficulty default to 1
+ * and are left out when they have that value. Both syntaxes parse into the
+ * same `TaskMarker`, and `serializeMarker` writes a task back in the syntax
+ * it was read in.
+ */
+
+export type TaskStatus = 'TODO' | 'COMPLETE' | 'ROLL';
+
+/**
+ * How a task is written: a `-=...=-` marker or a `- [ ]` checkbox
+ */
+export type MarkerStyle = 'marker' | 'checkbox';
+
+export interface MarkerOptions {
+    /** Also read GitHub-style checkboxes as tasks */
+    checkboxes?: boolean;
+}
+
+export const TASK_STATUSES: readonly TaskStatus[] = ['TODO', 'COMPLETE', 'ROLL'];
+
+/**
+ * Column range within a single line (end is exclusive)
+ */
+export interface MarkerRange {
+    start: number;
+    end: number;
+}
+
+export interface MarkerAttribute {
+    key: string;
+    value: string;
+}
+
+export interface MarkerParseError {
+    message: string;
+    range: MarkerRange;
+}
+
+/**
+ * The structured content of a marker line
+ */
+export interface TaskMarker {
+    status: TaskStatus;
+    priority: number;
+    difficulty: number;
+    /** Due date, or an empty string when the task has none */
+    due: string;
+    attributes: MarkerAttribute[];
+    /** Text after the marker, without surrounding whitespace or the ID */
+    text: string;
+    /** Stable ID from a trailing `^id`, if the task has one */
+    id?: string;
+    /** Anything before the marker, such as indentation or a list bullet */
+    prefix: string;
+    /** Syntax the task is written in, a marker unless set */
+    style?: MarkerStyle;
+}
+
+/**
+ * Result of parsing a line that contains a marker
+ */
+export interface ParsedMarker extends TaskMarker {
+    /** Span of the `-=...=-` marker itself */
+    range: MarkerRange;
+    errors: MarkerParseError[];
+}
+
+const MARKER_REGEX = new RegExp(`-=\\s*(${TASK_STATUSES.join('|')})(?=[\\s=])([^=]*)=-`);
+const NUMBER_REGEX = /^\d+$/;
+const DATE_REGEX = /^(\d{6}|\d{4}-\d{2}-\d{2})$/;
+const ATTRIBUTE_REGEX = /^([A-Za-z][\w-]*):(\S+)$/;
+const DATE_ATTRIBUTES = ['created', 'done'];
+const ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)$/;
+const ID_LIST_REGEX = /^[A-Za-z0-9-]+(,[A-Za-z0-9-]+)*$/;
+const CHECKBOX_REGEX = /^(\s*[-*+]\s+)\[([ xX>])\](?=\s|$)(.*)$/;
+const CHECKBOX_STATUSES: Record<string, TaskStatus> = { ' ': 'TODO', 'x': 'COMPLETE', 'X': 'COMPLETE', '>': 'ROLL' };
+const CHECKBOX_MARKS: Record<TaskStatus, string> = { TODO: ' ', COMPLETE: 'x', ROLL: '>' };
+// Attributes picked out of checkbox text; other key:value words stay part of the text
+const KNOWN_ATTRIBUTES = ['created', 'done', 'from', 'to', 'every', 'blocked-by'];
+
+interface Token {
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Split a string into whitespace-separated tokens, keeping their offsets
+ */
+function tokenize(source: string, offset: number): Token[] {
+    const tokens: Token[] = [];
+    const tokenRegex = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(source)) !== null) {
+        tokens.push({
+            value: match[0],
+            start: offset + match.index,
+            end: offset + match.index + match[0].length
+        });
+    }
+    return tokens;
+}
+
+/**
+ * Check the value of an attribute, recording any problem
+ */
+function validateAttribute(key: string, value: string, token: Token, errors: MarkerParseError[]): void {
+    if (DATE_ATTRIBUTES.includes(key) && !DATE_REGEX.test(value)) {
+        errors.push({ message: `${key} date must be YYMMDD or YYYY-MM-DD, got "${value}"`, range: token });
+    }
+    if (key === 'every' && !parseRecurrence(value)) {
+        errors.push({ message: `Unknown recurrence "${value}"`, range: token });
+    }
+    if (key === 'blocked-by' && !ID_LIST_REGEX.test(value)) {
+        errors.push({ message: `blocked-by must be a comma-separated list of task IDs, got "${value}"`, range: token });
+    }
+}
+
+/**
+ * Check a due date, which may be a phrase such as "next friday"
+ */
+function isDueDate(value: string): boolean {
+    return DATE_REGEX.test(value) || parseNaturalDate(value) !== null;
+}
+
+/**
+ * Split a trailing `^id` off task text
+ */
+function splitId(text: string): { text: string; id?: string } {
+    const idMatch = ID_REGEX.exec(text);
+    return idMatch
+        ? { text: text.substring(0, idMatch.index).trim(), id: idMatch[1] }
+        : { text };
+}
+
+/**
+ * Parse the first task marker on a line.
+ * Returns null when the line has no marker at all. A marker with missing or
+ * invalid fields is still returned, with the problems listed in `errors`.
+ */
+export function parseMarker(line: string, options: MarkerOptions = {}): ParsedMarker | null {
+    const match = MARKER_REGEX.exec(line);
+    if (!match) {
+        return options.checkboxes ? parseCheckbox(line) : null;
+    }
+
+    const start = match.index;
+    const end = start + match[0].length;
+    const status = match[1] as TaskStatus;
+    const fieldsOffset = start + match[0].indexOf(match[1]) + match[1].length;
+    const tokens = tokenize(match[2], fieldsOffset);
+    const errors: MarkerParseError[] = [];
+
+    const positional: Token[] = [];
+    const attributes: MarkerAttribute[] = [];
+    for (const token of tokens) {
+        const attributeMatch = ATTRIBUTE_REGEX.exec(token.value);
+        if (attributeMatch) {
+            attributes.push({ key: attributeMatch[1], value: attributeMatch[2] });
+            validateAttribute(attributeMatch[1], attributeMatch[2], token, errors);
+        } else if (attributes.length > 0) {
+            errors.push({ message: `Unexpected field "${token.value}" after attributes`, range: token });
+        } else {
+            positional.push(token);
+        }
+    }
+
+    const readNumber = (token: Token | undefined, name: string): number => {
+        if (!token) {
+            errors.push({ message: `Missing ${name}`, range: { start, end } });
+            return 0;
+        }
+        if (!NUMBER_REGEX.test(token.value)) {
+            errors.push({ message: `${name} must be a number, got "${token.value}"`, range: token });
+            return 0;
+        }
+        return parseInt(token.value, 10);
+    };
+
+    const priority = readNumber(positional[0], 'Priority');
+    const difficulty = readNumber(positional[1], 'Difficulty');
+
+    let due = '';
+    const dueTokens = positional.slice(2);
+    if (dueTokens.length > 0) {
+        const phrase = dueTokens.map(token => token.value).join(' ');
+        if (isDueDate(phrase)) {
+            due = phrase;
+        } else if (dueTokens.length === 1 || DATE_REGEX.test(dueTokens[0].value)) {
+            if (!DATE_REGEX.test(dueTokens[0].value)) {
+                errors.push({ message: `Date must be YYMMDD, YYYY-MM-DD or a phrase such as "next friday", got "${dueTokens[0].value}"`, range: dueTokens[0] });
+            }
+            due = dueTokens[0].value;
+            for (const extra of dueTokens.slice(1)) {
+                errors.push({ message: `Unexpected field "${extra.value}"`, range: extra });
+            }
+        } else {
+            errors.push({
+                message: `Date must be YYMMDD, YYYY-MM-DD or a phrase such as "next friday", got "${phrase}"`,
+                range: { start: dueTokens[0].start, end: dueTokens[dueTokens.length - 1].end }
+            });
+            due = phrase;
+        }
+    }
+
+    const { text, id } = splitId(line.substring(end).trim());
+
+    return {
+        status,
+        priority,
+        difficulty,
+        due,
+        attributes,
+        text,
+        id,
+        prefix: line.substring(0, start),
+        range: { start, end },
+        errors
+    };
+}
+
+/**
+ * Parse a GitHub-style checkbox task, with its fields read from the text.
+ * Empty checkboxes, such as the one in the daily template, are not tasks.
+ */
+function parseCheckbox(line: string): ParsedMarker | null {
+    const match = CHECKBOX_REGEX.exec(line);
+    if (!match) {
+        return null;
+    }
+
+    const prefix = match[1];
+    const start = prefix.length;
+    const end = start + 3;
+    const errors: MarkerParseError[] = [];
+    const attributes: MarkerAttribute[] = [];
+    const words: string[] = [];
+    let priority = 1;
+    let difficulty = 1;
+    let due = '';
+
+    for (const token of tokenize(match[3], end)) {
+        const attributeMatch = ATTRIBUTE_REGEX.exec(token.value);
+        const key = attributeMatch ? attributeMatch[1] : '';
+        const value = attributeMatch ? attributeMatch[2] : '';
+        if (key === 'p' || key === 'd') {
+            const name = key === 'p' ? 'Priority' : 'Difficulty';
+            if (!NUMBER_REGEX.test(value)) {
+                errors.push({ message: `${name} must be a number, got "${value}"`, range: token });
+            } else if (key === 'p') {
+                priority = parseInt(value, 10);
+            } else {
+                difficulty = parseInt(value, 10);
+            }
+        } else if (key === 'due') {
+            if (!isDueDate(value)) {
+                errors.push({ message: `Date must be YYMMDD, YYYY-MM-DD or a phrase such as next-friday, got "${value}"`, range: token });
+            }
+            due = value;
+        } else if (KNOWN_ATTRIBUTES.includes(key)) {
+            attributes.push({ key, value });
+            validateAttribute(key, value, token, errors);
+        } else {
+            words.push(token.value);
+        }
+    }
+
+    const { text, id } = splitId(words.join(' '));
+    if (!text && !id && errors.length === 0) {
+        return null;
+    }
+
+    return {
+        status: CHECKBOX_STATUSES[match[2]],
+        priority,
+        difficulty,
+        due,
+        attributes,
+        text,
+        id,
+        prefix,
+        style: 'checkbox',
+        range: { start, end },
+        errors
+    };
+}
+
+/**
+ * Write a marker back out as a line of text.
+ * For any line in canonical form, `serializeMarker(parseMarker(line))` returns
+ * the line unchanged.
+ */
+export function serializeMarker(marker: TaskMarker): string {
+    if (marker.style === 'checkbox') {
+        return serializeCheckbox(marker);
+    }
+    const fields = [
+        marker.status,
+        marker.priority.toString(),
+        marker.difficulty.toString(),
+        ...(marker.due ? [marker.due] : []),
+        ...marker.attributes.map(attribute => `${attribute.key}:${attribute.value}`)
+    ];
+    const text = [marker.text, marker.id ? `^${marker.id}` : '']
+        .filter(part => part)
+        .map(part => ` ${part}`)
+        .join('');
+    return `${marker.prefix}-=${fields.join(' ')}=-${text}`;
+}
+
+/**
+ * Write a task as a checkbox, adding a list bullet if the prefix has none
+ */
+function serializeCheckbox(marker: TaskMarker): string {
+    const prefix = /[-*+]\s+$/.test(marker.prefix) ? marker.prefix : `${marker.prefix}- `;
+    const fields = [
+        marker.text,
+        marker.priority !== 1 ? `p:${marker.priority}` : '',
+        marker.difficulty !== 1 ? `d:${marker.difficulty}` : '',
+        // Phrases such as "next friday" need hyphens to stay one field
+        marker.due ? `due:${marker.due.replace(/\s+/g, '-')}` : '',
+        ...marker.attributes.map(attribute => `${attribute.key}:${attribute.value}`),
+        marker.id ? `^${marker.id}` : ''
+    ].filter(field => field);
+    return `${prefix}[${CHECKBOX_MARKS[marker.status]}]${fields.map(field => ` ${field}`).join('')}`;
+}
+
+/**
+ * Escape text from outside the journal so it can follow a marker: `-=` and
+ * `=-` would be read as the edges of a marker, and a trailing `^word` as the
+ * task's ID. Markdown shows the escaped text as it was written.
+ */
+export function escapeTaskText(text: string): string {
+    return text
+        .replace(/-=|=-/g, delimiter => delimiter === '-=' ? '-\\=' : '=\\-')
+        .replace(/(^|\s)\^(?=[A-Za-z0-9-]+$)/, '$1\\^');
+}
+
+/**
+ * Rewrite a task in the other syntax, keeping its indentation but not its
+ * list bullet. Returns null for a marker that has other text before it,
+ * which a checkbox cannot hold.
+ */
+export function convertMarkerStyle(marker: TaskMarker, style: MarkerStyle): TaskMarker | null {
+    const prefixMatch = /^(\s*)(?:[-*+]\s+)?$/.exec(marker.prefix);
+    if (!prefixMatch) {
+        return null;
+    }
+    return {
+        ...marker,
+        attributes: marker.attributes.map(attribute => ({ ...attribute })),
+        prefix: prefixMatch[1],
+        style
+    };
+}
+
+/**
+ * Make a new short task ID, avoiding any IDs already in use
+ */
+export function createTaskId(existing: Set<string> = new Set()): string {
+    let id: string;
+    do {
+        id = Math.random().toString(36).substring(2, 8).padEnd(6, '0');
+    } while (existing.has(id));
+    return id;
+}
+
+/**
+ * Get the value of an attribute, if present
+ */
+export function getAttribute(marker: TaskMarker, key: string): string | undefined {
+    return marker.attributes.find(attribute => attribute.key === key)?.value;
+}
+
+/**
+ * Set or remove (when value is undefined) an attribute, keeping the order of the others
+ */
+export function setAttribute(marker: TaskMarker, key: string, value: string | undefined): void {
+    const index = marker.attributes.findIndex(attribute => attribute.key === key);
+    if (value === undefined) {
+        if (index >= 0) {
+            marker.attributes.splice(index, 1);
+        }
+    } else if (index >= 0) {
+        marker.attributes[index] = { key, value };
+    } else {
+        marker.attributes.push({ key, value });
+    }
+}
+
+/**
+ * Rewrite every task date in a marker (due, created and done)
+ */
+export function mapMarkerDates(marker: TaskMarker, convert: (date: string) => string): void {
+    if (marker.due) {
+        marker.due = convert(marker.due);
+    }
+    for (const attribute of marker.attributes) {
+        if (DATE_ATTRIBUTES.includes(attribute.key)) {
+            attribute.value = convert(attribute.value);
+        }
+    }
+}
+
+/**
+ * Get the date a task was written down, if recorded
+ */
+export function getCreatedDate(marker: TaskMarker): string | undefined {
+    return getAttribute(marker, 'created');
+}
+
+/**
+ * Get the due date of a task.
+ * Older COMPLETE markers overwrote the due date with the completion date, so
+ * a COMPLETE marker without a `done:` attribute has no known due date.
+ */
+export function getDueDate(marker: TaskMarker): string | undefined {
+    if (isLegacyComplete(marker)) {
+        return undefined;
+    }
+    return marker.due || undefined;
+}
+
+/**
+ * Get the date a task was completed, if it has been
+ */
+export function getCompletedDate(marker: TaskMarker): string | undefined {
+    if (marker.status !== 'COMPLETE') {
+        return undefined;
+    }
+    // Older COMPLETE markers kept the completion date in the date field
+    return getAttribute(marker, 'done') ?? (isLegacyComplete(marker) ? marker.due || undefined : undefined);
+}
+
+/**
+ * Whether a marker is a COMPLETE marker from before `done:` was recorded.
+ * Checkboxes came later and always keep their due date.
+ */
+function isLegacyComplete(marker: TaskMarker): boolean {
+    return marker.style !== 'checkbox' && marker.status === 'COMPLETE' && getAttribute(marker, 'done') === undefined;
+}
+
+/**
+ * Get the IDs of the tasks a task is waiting on
+ */
+export function getBlockedBy(marker: TaskMarker): string[] {
+    const value = getAttribute(marker, 'blocked-by');
+    return value ? value.split(',').filter(id => id) : [];
+}
+
+/**
+ * Tokens found in the free text of a task
+ */
+export interface TextTokens {
+    tags: string[];
+    contexts: string[];
+    projects: string[];
+    /** Contexts the task is waiting on, from "waiting for @person" or a #waiting tag */
+    waitingFor: string[];
+}
+
+const TEXT_TOKEN_REGEX = /(^|\s)([#@+])([\w][\w/.-]*)/g;
+const WAITING_FOR_REGEX = /\b(?:waiting (?:for|on)|wf)\s+@([\w][\w/.-]*)/gi;
+
+/**
+ * Extract `#tag`, `@context` and `+project` tokens from task text.
+ * Tokens only count at the start of the text or after whitespace, so
+ * e-mail addresses and URL fragments are left alone.
+ */
+export function parseTextTokens(text: string): TextTokens {
+    const tokens: TextTokens = { tags: [], contexts: [], projects: [], waitingFor: [] };
+    const add = (list: string[], value: string) => {
+        // Trailing punctuation belongs to the sentence, not the token
+        const cleaned = value.replace(/[./-]+$/, '');
+        if (cleaned && !list.includes(cleaned)) {
+            list.push(cleaned);
+        }
+    };
+
+    let match: RegExpExecArray | null;
+    TEXT_TOKEN_REGEX.lastIndex = 0;
+    while ((match = TEXT_TOKEN_REGEX.exec(text)) !== null) {
+        switch (match[2]) {
+            case '#':
+                add(tokens.tags, match[3]);
+                break;
+            case '@':
+                add(tokens.contexts, match[3]);
+                break;
+            case '+':
+                add(tokens.projects, match[3]);
+                break;
+        }
+    }
+
+    WAITING_FOR_REGEX.lastIndex = 0;
+    while ((match = WAITING_FOR_REGEX.exec(text)) !== null) {
+        add(tokens.waitingFor, match[1]);
+    }
+    if (tokens.tags.includes('waiting')) {
+        tokens.contexts.forEach(context => add(tokens.waitingFor, context));
+    }
+
+    return tokens;
+}
@@ -1,46 +1,261 @@
-import * as vscode from 'vscode';
+import {
+    MarkerOptions,
+    MarkerStyle,
+    TaskMarker,
+    TaskStatus,
+    getAttribute,
+    getBlockedBy,
+    getCompletedDate,
+    getCreatedDate,
+    getDueDate,
+    mapMarkerDates,
+    parseMarker,
+    parseTextTokens,
+    serializeMarker,
+    setAttribute
+} from './taskMarker';
+import { TaskDateFormat, convertTaskDate, isCanonicalTaskDate, parseNoteDate } from './dateFormatter';
 
 export interface Task {
     text: string;
     priority: number;
     difficulty: number;
-    dueDate: string;  // Changed from creationDate to dueDate
+    dueDate?: string;        // YYYY-MM-DD, whatever form the marker uses
+    createdDate?: string;    // YYYY-MM-DD
+    completedDate?: string;  // YYYY-MM-DD
     filePath: string;
-    line: number;
-    status: 'TODO' | 'COMPLETE';
+    line: number;            // Line at scan time; use findTaskLine before editing
+    id?: string;             // Stable ID from a trailing ^id
+    status: TaskStatus;
+    tags: string[];       // #tag tokens in the text
+    contexts: string[];   // @context tokens in the text, usually people or places
+    projects: string[];   // +project tokens in the text
+    waitingFor: string[]; // Contexts the task is waiting on
+    rolledFrom?: string;  // Date (YYYY-MM-DD) of the note this task was rolled from
+    rolledTo?: string;    // Date (YYYY-MM-DD) of the note a ROLL task was moved into
+    indent: number;       // Width of the leading whitespace on the task line
+    parentLine?: number;  // Line of the task this one is nested under, in the same file
+    progress?: { done: number; total: number };  // Subtask completion, for tasks with subtasks
+    recurrence?: string;  // Recurrence rule from an every: attribute
+    blockedBy: string[];  // IDs of tasks that must be completed first
+    blocked?: boolean;    // Set by the scanner when a blocker is still open
+    style?: MarkerStyle;  // Set for tasks written as checkboxes
 }
 
-export function parseTask(line: string, filePath: string, lineNumber: number): Task | null {
-    // Regex patterns for task markers
-    const todoRegex = /-=TODO (\d+) (\d+) (\d+)=-(.*)/;
-    const completeRegex = /-=COMPLETE (\d+) (\d+) (\d+)=-(.*)/;
-    // Ignoring ROLL tasks as they're rolled over to other files
+export function parseTask(
+    line: string,
+    filePath: string,
+    lineNumber: number,
+    options: MarkerOptions = {}
+): Task | null {
+    const marker = parseMarker(line, options);
+    // Malformed markers are not tasks
+    if (!marker || marker.errors.length > 0) {
+        return null;
+    }
+
+    const tokens = parseTextTokens(marker.text);
+
+    return {
+        text: marker.text,
+        priority: marker.priority,
+        difficulty: marker.difficulty,
+        dueDate: normalizeDate(getDueDate(marker), getReferenceDate(filePath)),
+        createdDate: normalizeDate(getCreatedDate(marker)),
+        completedDate: normalizeDate(getCompletedDate(marker)),
+        filePath,
+        line: lineNumber,
+        id: marker.id,
+        status: marker.status,
+        tags: tokens.tags,
+        contexts: tokens.contexts,
+        projects: tokens.projects,
+        waitingFor: tokens.waitingFor,
+        rolledFrom: getAttribute(marker, 'from'),
+        rolledTo: getAttribute(marker, 'to'),
+        recurrence: getAttribute(marker, 'every'),
+        blockedBy: getBlockedBy(marker),
+        style: marker.style,
+        indent: getIndentWidth(line)
+    };
+}
+
+/**
+ * Parse every task in a file and link subtasks to their parents.
+ * A task is a subtask of the nearest task above it with less indentation,
+ * unless a less indented line of other text comes between them.
+ */
+export function parseTasksInLines(lines: string[], filePath: string, options: MarkerOptions = {}): Task[] {
+    const tasks: Task[] = [];
+    // Tasks that later lines may be nested under, innermost last
+    const scopes: Task[] = [];
+    
+    lines.forEach((line, lineNumber) => {
+        if (line.trim() === '') {
+            return;
+        }
+        
+        // Any line, task or not, closes the tasks it is not indented under
+        const indent = getIndentWidth(line);
+        while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) {
+            scopes.pop();
+        }
+        
+        const task = parseTask(line, filePath, lineNumber, options);
+        if (task) {
+            if (scopes.length > 0) {
+                task.parentLine = scopes[scopes.length - 1].line;
+            }
+            tasks.push(task);
+            scopes.push(task);
+        }
+    });
     
-    let match = line.match(todoRegex);
-    if (match) {
-        return {
-            text: match[4].trim(),
-            priority: parseInt(match[1]),
-            difficulty: parseInt(match[2]),
-            dueDate: match[3],  // This is now properly labeled as dueDate
-            filePath,
-            line: lineNumber,
-            status: 'TODO'
-        };
+    // Roll up subtask progress; rolled subtasks live on elsewhere and don't count
+    for (const task of tasks) {
+        const subtasks = getSubtasks(task, tasks).filter(subtask => subtask.status !== 'ROLL');
+        if (subtasks.length > 0) {
+            task.progress = {
+                done: subtasks.filter(subtask => subtask.status === 'COMPLETE').length,
+                total: subtasks.length
+            };
+        }
     }
     
-    match = line.match(completeRegex);
-    if (match) {
-        return {
-            text: match[4].trim(),
-            priority: parseInt(match[1]),
-            difficulty: parseInt(match[2]),
-            dueDate: match[3],  // This is now properly labeled as dueDate
-            filePath,
-            line: lineNumber,
-            status: 'COMPLETE'
-        };
+    return tasks;
+}
+
+/**
+ * Get the tasks nested directly under a task
+ */
+export function getSubtasks(task: Task, allTasks: Task[]): Task[] {
+    return allTasks.filter(candidate =>
+        candidate.filePath === task.filePath && candidate.parentLine === task.line
+    );
+}
+
+/**
+ * Get every task nested under a task, at any depth, in document order
+ */
+export function getDescendants(task: Task, allTasks: Task[]): Task[] {
+    const descendants: Task[] = [];
+    for (const subtask of getSubtasks(task, allTasks)) {
+        descendants.push(subtask, ...getDescendants(subtask, allTasks));
     }
+    return descendants;
+}
+
+/**
+ * Find the line a task is on now, in the current lines of its file.
+ * Tasks are found by ID, falling back to the task text nearest the line
+ * they were scanned at. Returns undefined if the task is no longer there.
+ */
+export function findTaskLine(task: Task, lines: string[], options: MarkerOptions = {}): number | undefined {
+    const markers = lines.map(line => parseMarker(line, options));
     
-    return null;
-}
\ No newline at end of file
+    if (task.id) {
+        const index = markers.findIndex(marker => marker?.id === task.id);
+        if (index >= 0) {
+            return index;
+        }
+    }
+    
+    let best: number | undefined;
+    markers.forEach((marker, index) => {
+        // A line with a different ID is a different task, whatever its text
+        if (!marker || marker.text !== task.text || (task.id && marker.id && marker.id !== task.id)) {
+            return;
+        }
+        if (best === undefined || Math.abs(index - task.line) < Math.abs(best - task.line)) {
+            best = index;
+        }
+    });
+    return best;
+}
+
+/**
+ * Measure the leading whitespace of a line, counting tabs as four columns
+ */
+export function getIndentWidth(line: string): number {
+    const whitespace = line.match(/^[ \t]*/)![0];
+    return whitespace.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Bring a marker date into the YYYY-MM-DD form used by the model.
+ * A day that doesn't exist, such as 250431, is left out rather than guessed
+ * at; the diagnostics point it out.
+ */
+export function normalizeDate(dateStr: string | undefined, reference?: Date): string | undefined {
+    try {
+        return dateStr ? convertTaskDate(dateStr, 'YYYY-MM-DD', reference) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the date that due date phrases such as "tomorrow" in a file are read
+ * relative to: the day of a daily note, since that is when it was written,
+ * or today for other notes
+ */
+export function getReferenceDate(filePath: string): Date {
+    const noteDate = getNoteDate(filePath);
+    return noteDate ? parseNoteDate(noteDate) : new Date();
+}
+
+/**
+ * Get the date (YYYY-MM-DD) of the daily note a file belongs to, if any
+ */
+export function getNoteDate(filePath: string): string | null {
+    const match = filePath.match(/(\d{4}-\d{2}-\d{2})\.md$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Build a fresh marker for a task, e.g. when copying it into another note.
+ * The marker has no ID, since the copy is a separate line from the original.
+ */
+export function taskToMarker(
+    task: Task,
+    status: TaskStatus = task.status,
+    dateFormat: TaskDateFormat = 'YYMMDD'
+): TaskMarker {
+    const marker: TaskMarker = {
+        status,
+        priority: task.priority,
+        difficulty: task.difficulty,
+        due: task.dueDate || '',
+        attributes: [],
+        text: task.text,
+        prefix: '',
+        style: task.style
+    };
+    setAttribute(marker, 'created', task.createdDate);
+    if (status === 'COMPLETE') {
+        setAttribute(marker, 'done', task.completedDate);
+    }
+    setAttribute(marker, 'every', task.recurrence);
+    setAttribute(marker, 'blocked-by', task.blockedBy.length > 0 ? task.blockedBy.join(',') : undefined);
+    mapMarkerDates(marker, date => convertTaskDate(date, dateFormat));
+    return marker;
+}
+
+/**
+ * Rewrite a due date phrase such as "next friday" on a task line as a date
+ * in the given format, read relative to the file's reference date
+ * @returns the rewritten line, or null if the line has no phrase to rewrite
+ */
+export function normalizeDueDate(
+    line: string,
+    filePath: string,
+    dateFormat: TaskDateFormat,
+    options: MarkerOptions = {}
+): string | null {
+    const marker = parseMarker(line, options);
+    if (!marker || marker.errors.length > 0 || !marker.due || isCanonicalTaskDate(marker.due)) {
+        return null;
+    }
+    marker.due = convertTaskDate(marker.due, dateFormat, getReferenceDate(filePath));
+    return serializeMarker(marker);
+}
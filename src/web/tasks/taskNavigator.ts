@@ -1,85 +1,484 @@
 import * as vscode from 'vscode';
-import { Task } from './taskModel';
-import { formatDateForTask } from './dateFormatter';
+import { Task, findTaskLine, getDescendants, getNoteDate, getReferenceDate, parseTasksInLines } from './taskModel';
+import {
+    TaskMarker,
+    createTaskId,
+    getAttribute,
+    getBlockedBy,
+    getDueDate,
+    parseMarker,
+    serializeMarker,
+    setAttribute
+} from './taskMarker';
+import { formatDateForTask, formatDateShort, formatDateYYYYMMDD, parseTaskDate } from './dateFormatter';
+import { ConfigService, SubtaskCompletionAction } from '../common/configService';
 import { handleTaskError } from '../common/errorHandler';
+import { addRollToEdit } from './taskRollover';
+import { describeRecurrence, getNextOccurrence, parseRecurrence } from './taskRecurrence';
+import { createNote } from '../fileManager';
+import { TaskScanner } from './taskScanner';
+import { getUnblockedTasks } from './taskDependencies';
+import { getToggleAction } from './taskToggle';
 
 /**
- * Toggles a task state in a markdown document
- * - Adds a task marker to empty lines
+ * Toggles the task state of every line under a cursor or selection
+ * - Adds a task marker to lines of plain text, and to an empty line under the cursor
  * - Toggles between TODO and COMPLETE on existing task lines
- * - Preserves task details
+ * - Preserves task details, including the due date
+ * - Gives the task a stable ID if it does not have one yet
+ * - Optionally completes or rolls the open subtasks of a completed task
+ * - Schedules the next occurrence of a completed recurring task
+ * - Lists the tasks a completed task was blocking
+ *
+ * Mixed selections follow one rule, see `getToggleAction`. All lines, and
+ * the subtasks, rolled tasks and next occurrences that follow from them,
+ * change in a single edit, so one undo reverts the whole toggle.
  */
-export async function toggleTaskState(): Promise<void> {
+export async function toggleTaskState(scanner: TaskScanner): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.document.languageId !== 'markdown') {
         return;
     }
 
-    const position = editor.selection.active;
-    const line = editor.document.lineAt(position.line);
-    const lineText = line.text;
-    
-    // Regex patterns for task markers
-    const todoRegex = /-=TODO (\d+) (\d+) (\d+)=-(.*)/;
-    const completeRegex = /-=COMPLETE (\d+) (\d+) (\d+)=-(.*)/;
-    
-    let newText: string;
+    const document = editor.document;
+    const selectedLines = getSelectedLines(editor);
+    // Blank lines in a multi-line selection are left alone
+    const lineNumbers = selectedLines.length === 1
+        ? selectedLines
+        : selectedLines.filter(lineNumber => document.lineAt(lineNumber).text.trim() !== '');
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    const version = document.version;
+    const taskIds = getDocumentTaskIds(document);
+
+    const markers = new Map<number, TaskMarker>();
+    const plainLines: number[] = [];
+    for (const lineNumber of lineNumbers) {
+        const marker = parseMarker(document.lineAt(lineNumber).text, markerOptions);
+        if (!marker) {
+            plainLines.push(lineNumber);
+        } else if (marker.errors.length > 0) {
+            vscode.window.showWarningMessage(`Cannot toggle malformed task marker: ${marker.errors[0].message}`);
+            return;
+        } else if (marker.status !== 'ROLL') {
+            markers.set(lineNumber, marker);
+        }
+    }
+    const action = getToggleAction([
+        ...plainLines.map(() => null),
+        ...[...markers.values()].map(marker => marker.status)
+    ]);
+
+    const newTexts = new Map<number, string>();
+    let documentTasks: Task[] = [];
+    let openSubtasks: Task[] = [];
+    let subtaskAction: SubtaskCompletionAction = 'leave';
+    const completedRecurring: TaskMarker[] = [];
+    const completedIds: string[] = [];
+
+    if (action === 'create') {
+        // No task marker found, insert new TODO due today
+        const today = formatDateForTask(new Date(), ConfigService.getInstance().getTaskDateFormat());
+        for (const lineNumber of plainLines) {
+            const lineText = document.lineAt(lineNumber).text;
+            // Pasted list items keep their bullet in front of the marker
+            const prefix = lineText.match(/^\s*(?:[-*+]\s+)?/)![0];
+            const id = createTaskId(taskIds);
+            taskIds.add(id);
+            newTexts.set(lineNumber, serializeMarker({
+                status: 'TODO',
+                priority: 1,
+                difficulty: 1,
+                due: today,
+                attributes: [{ key: 'created', value: today }],
+                text: lineText.substring(prefix.length).trim(),
+                id,
+                prefix
+            }));
+        }
+    } else if (action === 'none') {
+        // Rolled tasks live on in another note
+        if (lineNumbers.length === 1) {
+            vscode.window.showInformationMessage('This task has been rolled over to another note.');
+        }
+        return;
+    } else {
+        for (const marker of markers.values()) {
+            if (!marker.id) {
+                marker.id = createTaskId(taskIds);
+                taskIds.add(marker.id);
+            }
+        }
+
+        if (action === 'reopen') {
+            // Convert COMPLETE back to TODO, keeping the due date
+            for (const [lineNumber, marker] of markers) {
+                marker.status = 'TODO';
+                setAttribute(marker, 'done', undefined);
+                newTexts.set(lineNumber, serializeMarker(marker));
+            }
+        } else {
+            // Convert TODO to COMPLETE, recording today as the completion date
+            for (const [lineNumber, marker] of markers) {
+                if (marker.status === 'TODO') {
+                    markComplete(marker);
+                    newTexts.set(lineNumber, serializeMarker(marker));
+                    if (getAttribute(marker, 'every')) {
+                        completedRecurring.push(marker);
+                    }
+                    completedIds.push(marker.id!);
+                }
+            }
+
+            // Decide what happens to subtasks that are still open and not being completed too
+            documentTasks = parseTasksInLines(getDocumentLines(document), document.uri.fsPath, markerOptions);
+            const subtasks = new Set<Task>();
+            for (const task of documentTasks.filter(candidate => newTexts.has(candidate.line))) {
+                getDescendants(task, documentTasks)
+                    .filter(subtask => subtask.status === 'TODO' && !markers.has(subtask.line))
+                    .forEach(subtask => subtasks.add(subtask));
+            }
+            openSubtasks = [...subtasks];
+            if (openSubtasks.length > 0) {
+                subtaskAction = await chooseSubtaskAction(openSubtasks.length, completedIds.length);
+            }
+        }
+    }
+
+    // Everything the toggle changes goes in one edit
+    const edit = new vscode.WorkspaceEdit();
+    for (const [lineNumber, newText] of newTexts) {
+        edit.replace(document.uri, document.lineAt(lineNumber).range, newText);
+    }
+    if (subtaskAction === 'complete') {
+        for (const subtask of openSubtasks) {
+            const subtaskLine = document.lineAt(subtask.line);
+            const subtaskMarker = parseMarker(subtaskLine.text, markerOptions)!;
+            markComplete(subtaskMarker);
+            edit.replace(document.uri, subtaskLine.range, serializeMarker(subtaskMarker));
+        }
+    }
+
+    try {
+        // Other notes the edit adds to are saved once it is applied
+        const notesToSave: vscode.TextDocument[] = [];
+        const messages: string[] = [];
+        if (subtaskAction === 'roll') {
+            const rolled = await addRollToEdit(edit, document, openSubtasks, documentTasks, taskIds);
+            if (rolled) {
+                notesToSave.push(rolled.note);
+                messages.push(`Rolled ${rolled.count} subtask${rolled.count > 1 ? 's' : ''} to today's note.`);
+            }
+        }
+        const scheduled = await addNextOccurrencesToEdit(edit, completedRecurring, getReferenceDate(document.uri.fsPath));
+        notesToSave.push(...scheduled.notes);
+        messages.push(...scheduled.messages);
+
+        // The lines read above are only safe to replace if nothing changed meanwhile
+        if (document.version !== version) {
+            vscode.window.showWarningMessage('The note changed before the task could be updated. Please try again.');
+            return;
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            return;
+        }
+        for (const note of notesToSave.filter(candidate => candidate !== document)) {
+            await note.save();
+        }
+        messages.forEach(message => vscode.window.showInformationMessage(message));
+
+        if (completedIds.length > 0) {
+            await announceUnblockedTasks(document, completedIds, scanner);
+        }
+    } catch (error) {
+        handleTaskError('Failed to toggle task state', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Mark the task under the cursor as blocked by another open task, picked from a list.
+ * Both tasks are given IDs if they do not have them yet.
+ */
+export async function addTaskBlocker(scanner: TaskScanner): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        return;
+    }
     
-    const todoMatch = lineText.match(todoRegex);
-    const completeMatch = lineText.match(completeRegex);
+    const document = editor.document;
+    const lineNumber = editor.selection.active.line;
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    const marker = parseMarker(document.lineAt(lineNumber).text, markerOptions);
+    const version = document.version;
+    if (!marker || marker.errors.length > 0) {
+        vscode.window.showWarningMessage('Place the cursor on a task to add a blocker.');
+        return;
+    }
     
-    if (todoMatch) {
-        // Convert TODO to COMPLETE with today's date
-        const priority = todoMatch[1];
-        const difficulty = todoMatch[2];
-        const taskText = todoMatch[4];
+    try {
+        const allTasks = await scanner.getAllTasks();
+        const candidates = allTasks.filter(task =>
+            task.status === 'TODO' &&
+            !(task.filePath === document.uri.fsPath && task.line === lineNumber) &&
+            !(task.id && getBlockedBy(marker).includes(task.id))
+        );
         
-        const today = new Date();
-        const dateStr = formatDateForTask(today);
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(task => ({
+                label: task.text || '(No description)',
+                description: getNoteDate(task.filePath) || vscode.workspace.asRelativePath(task.filePath),
+                task
+            })),
+            { placeHolder: 'Select the task that has to be done first', matchOnDescription: true }
+        );
+        if (!picked) {
+            return;
+        }
+        if (document.version !== version) {
+            vscode.window.showWarningMessage('The note changed before the blocker could be added. Please try again.');
+            return;
+        }
         
-        newText = `-=COMPLETE ${priority} ${difficulty} ${dateStr}=-${taskText}`;
-    } else if (completeMatch) {
-        // Convert COMPLETE back to TODO with original date
-        const priority = completeMatch[1];
-        const difficulty = completeMatch[2];
-        const origDate = completeMatch[3]; // Keep the original date
-        const taskText = completeMatch[4];
+        const edit = new vscode.WorkspaceEdit();
+        const blocker = picked.task;
+        let blockerId = blocker.id;
         
-        newText = `-=TODO ${priority} ${difficulty} ${origDate}=-${taskText}`;
-    } else {
-        // No task marker found, insert new TODO
-        const today = new Date();
-        const dateStr = formatDateForTask(today);
+        // The blocker needs an ID before it can be referenced
+        const blockerDocument = await vscode.workspace.openTextDocument(blocker.filePath);
+        const sameDocument = blockerDocument.uri.toString() === document.uri.toString();
+        const taskIds = getDocumentTaskIds(document);
+        if (!blockerId) {
+            const blockerLine = findTaskLine(blocker, getDocumentLines(blockerDocument), markerOptions);
+            const blockerMarker = blockerLine !== undefined ? parseMarker(blockerDocument.lineAt(blockerLine).text, markerOptions) : null;
+            if (blockerLine === undefined || !blockerMarker || (sameDocument && blockerLine === lineNumber)) {
+                vscode.window.showWarningMessage(`Could not find "${blocker.text}". Try again after saving your notes.`);
+                return;
+            }
+            blockerId = createTaskId(sameDocument ? taskIds : getDocumentTaskIds(blockerDocument));
+            taskIds.add(blockerId);
+            blockerMarker.id = blockerId;
+            edit.replace(blockerDocument.uri, blockerDocument.lineAt(blockerLine).range, serializeMarker(blockerMarker));
+        }
         
-        if (lineText.trim() === '') {
-            // Empty line
-            newText = `-=TODO 1 1 ${dateStr}=-`;
-        } else {
-            // Line has content but no task marker
-            newText = `-=TODO 1 1 ${dateStr}=- ${lineText}`;
+        marker.id = marker.id || createTaskId(taskIds);
+        setAttribute(marker, 'blocked-by', [...getBlockedBy(marker), blockerId].join(','));
+        edit.replace(document.uri, document.lineAt(lineNumber).range, serializeMarker(marker));
+        await vscode.workspace.applyEdit(edit);
+        if (!sameDocument) {
+            await blockerDocument.save();
+        }
+    } catch (error) {
+        handleTaskError('Failed to add blocker', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Mark a task marker as completed today
+ */
+function markComplete(marker: TaskMarker): void {
+    marker.status = 'COMPLETE';
+    setAttribute(marker, 'done', formatDateForTask(new Date(), ConfigService.getInstance().getTaskDateFormat()));
+}
+
+/**
+ * Add the next occurrences of completed recurring tasks to the notes for
+ * their new due dates, creating the notes if needed. Occurrences are counted
+ * from the old due date, skipping any that have already passed.
+ * @param reference date a due date phrase is read relative to
+ * @returns the notes added to, to save once the edit is applied, and a
+ * message about each occurrence
+ */
+async function addNextOccurrencesToEdit(
+    edit: vscode.WorkspaceEdit,
+    completedTasks: TaskMarker[],
+    reference: Date
+): Promise<{ notes: vscode.TextDocument[]; messages: string[] }> {
+    const today = new Date();
+    const dateFormat = ConfigService.getInstance().getTaskDateFormat();
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    const additions = new Map<string, { document: vscode.TextDocument; taskIds: Set<string>; lines: string[] }>();
+    const messages: string[] = [];
+
+    for (const completed of completedTasks) {
+        const recurrence = parseRecurrence(getAttribute(completed, 'every')!);
+        if (!recurrence) {
+            continue;
+        }
+
+        const due = getDueDate(completed);
+        const anchor = due ? parseTaskDate(due, reference) : today;
+        const nextDate = getNextOccurrence(recurrence, anchor, anchor > today ? anchor : today);
+        const nextDateStr = formatDateYYYYMMDD(nextDate);
+
+        const next: TaskMarker = {
+            status: 'TODO',
+            priority: completed.priority,
+            difficulty: completed.difficulty,
+            due: formatDateForTask(nextDate, dateFormat),
+            attributes: [],
+            text: completed.text,
+            prefix: '',
+            style: completed.style
+        };
+        setAttribute(next, 'created', formatDateForTask(today, dateFormat));
+        setAttribute(next, 'every', getAttribute(completed, 'every'));
+
+        const noteUri = await createNote(nextDateStr, undefined, { reveal: false });
+        if (!noteUri) {
+            continue;
         }
+        let addition = additions.get(noteUri.toString());
+        if (!addition) {
+            const document = await vscode.workspace.openTextDocument(noteUri);
+            addition = { document, taskIds: getDocumentTaskIds(document), lines: [] };
+            additions.set(noteUri.toString(), addition);
+        }
+
+        // Completing, reopening and completing again must not add a second copy
+        const alreadyScheduled = parseTasksInLines(
+            getDocumentLines(addition.document),
+            addition.document.uri.fsPath,
+            markerOptions
+        ).some(task =>
+            task.status === 'TODO' && task.text === next.text && task.dueDate === nextDateStr
+        );
+        if (!alreadyScheduled) {
+            next.id = createTaskId(addition.taskIds);
+            addition.taskIds.add(next.id);
+            addition.lines.push(serializeMarker(next));
+        }
+
+        messages.push(`Next occurrence (${describeRecurrence(recurrence)}) is due ${formatDateShort(nextDate)}.`);
+    }
+
+    const notes: vscode.TextDocument[] = [];
+    for (const { document, lines } of additions.values()) {
+        if (lines.length > 0) {
+            addToTasksSection(edit, document, lines);
+            notes.push(document);
+        }
+    }
+    return { notes, messages };
+}
+
+/**
+ * Show which open tasks were waiting only on tasks that have just been completed
+ */
+async function announceUnblockedTasks(document: vscode.TextDocument, ids: string[], scanner: TaskScanner): Promise<void> {
+    const allTasks = await scanner.getAllTasks();
+    const completed = allTasks.filter(task => task.filePath === document.uri.fsPath && task.id && ids.includes(task.id));
+    if (completed.length === 0) {
+        return;
     }
     
-    try {
-        // Replace the line text
-        await editor.edit(editBuilder => {
-            const range = line.range;
-            editBuilder.replace(range, newText);
-        });
-    } catch (error) {
-        handleTaskError('Failed to toggle task state', error instanceof Error ? error : new Error(String(error)));
+    const unblocked = getUnblockedTasks(completed, allTasks);
+    if (unblocked.length === 0) {
+        return;
+    }
+    
+    const message = unblocked.length === 1
+        ? `Unblocked: ${unblocked[0].text}`
+        : `Unblocked ${unblocked.length} tasks: ${unblocked.map(task => task.text).join(', ')}`;
+    
+    // Don't hold up the toggle while the notification is showing
+    vscode.window.showInformationMessage(message, 'Show').then(async choice => {
+        if (choice !== 'Show') {
+            return;
+        }
+        const selected = unblocked.length === 1 ? unblocked[0] : (await vscode.window.showQuickPick(
+            unblocked.map(task => ({ label: task.text, description: vscode.workspace.asRelativePath(task.filePath), task })),
+            { placeHolder: 'Select a task to open' }
+        ))?.task;
+        if (selected) {
+            await navigateToTask(selected);
+        }
+    });
+}
+
+/**
+ * Work out what to do with open subtasks, asking the user if configured to
+ */
+async function chooseSubtaskAction(openCount: number, taskCount: number = 1): Promise<SubtaskCompletionAction> {
+    const configured = ConfigService.getInstance().getSubtaskCompletionAction();
+    if (configured !== 'ask') {
+        return configured;
+    }
+    
+    const choice = await vscode.window.showInformationMessage(
+        `${taskCount > 1 ? 'These tasks have' : 'This task has'} ${openCount} open subtask${openCount > 1 ? 's' : ''}.`,
+        'Complete Subtasks',
+        'Roll Subtasks to Today',
+        'Leave Open'
+    );
+    switch (choice) {
+        case 'Complete Subtasks':
+            return 'complete';
+        case 'Roll Subtasks to Today':
+            return 'roll';
+        default:
+            return 'leave';
     }
 }
 
+/**
+ * Get all lines of a document
+ */
+export function getDocumentLines(document: vscode.TextDocument): string[] {
+    const lines: string[] = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    }
+    return lines;
+}
+
+/**
+ * Get the lines touched by the editor's selections, in order.
+ * A selection ending at the start of a line does not include that line.
+ */
+export function getSelectedLines(editor: vscode.TextEditor): number[] {
+    const lines = new Set<number>();
+    for (const selection of editor.selections) {
+        const last = selection.end.line > selection.start.line && selection.end.character === 0
+            ? selection.end.line - 1
+            : selection.end.line;
+        for (let line = selection.start.line; line <= last; line++) {
+            lines.add(line);
+        }
+    }
+    return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Get the IDs of every task in a document
+ */
+export function getDocumentTaskIds(document: vscode.TextDocument): Set<string> {
+    const ids = new Set<string>();
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    for (const line of getDocumentLines(document)) {
+        const id = parseMarker(line, markerOptions)?.id;
+        if (id) {
+            ids.add(id);
+        }
+    }
+    return ids;
+}
+
 /**
  * Navigate to a specific task location in its file
+ * @returns the editor showing the task, or undefined if the task could not be found
  */
-export async function navigateToTask(task: Task): Promise<void> {
+export async function navigateToTask(task: Task): Promise<vscode.TextEditor | undefined> {
     try {
         const document = await vscode.workspace.openTextDocument(task.filePath);
         const editor = await vscode.window.showTextDocument(document);
         
-        const position = new vscode.Position(task.line, 0);
+        // The file may have been edited since the task was scanned
+        const line = findTaskLine(task, getDocumentLines(document), ConfigService.getInstance().getMarkerOptions());
+        if (line === undefined) {
+            vscode.window.showWarningMessage(`Could not find "${task.text}" in this note. It may have been moved or deleted.`);
+            return undefined;
+        }
+        
+        const position = new vscode.Position(line, 0);
         const selection = new vscode.Selection(position, position);
         
         editor.selection = selection;
@@ -87,10 +486,74 @@ export async function navigateToTask(task: Task): Promise<void> {
             new vscode.Range(position, position),
             vscode.TextEditorRevealType.InCenter
         );
+        return editor;
     } catch (err) {
         handleTaskError(`Could not navigate to task in ${task.filePath}`, 
                       err instanceof Error ? err : new Error(String(err)));
+        return undefined;
+    }
+}
+
+/**
+ * Toggle a task from one of the task views, finding it in its note first
+ */
+export async function toggleTask(task: Task, scanner: TaskScanner): Promise<void> {
+    const editor = await navigateToTask(task);
+    if (editor) {
+        await toggleTaskState(scanner);
+        await editor.document.save();
+    }
+}
+
+/**
+ * Add lines to the end of a note's Tasks section, or near the top of a note
+ * without one, and save the note
+ */
+export async function appendToTasksSection(document: vscode.TextDocument, lines: string[]): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    addToTasksSection(edit, document, lines);
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+}
+
+/**
+ * Add inserting lines at the end of a note's Tasks section, or near the top
+ * of a note without one, to an edit
+ */
+function addToTasksSection(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, lines: string[]): void {
+    const position = findSectionEnd(document, '## Tasks') ?? findInsertPositionInNote(document);
+    const text = lines.join('\n');
+    edit.insert(document.uri, position, position.character > 0 ? `\n${text}` : `${text}\n`);
+}
+
+/**
+ * Find the start of the line after the last non-blank line of a section,
+ * or undefined if the note has no such heading
+ */
+export function findSectionEnd(document: vscode.TextDocument, heading: string): vscode.Position | undefined {
+    for (let i = 0; i < document.lineCount; i++) {
+        if (document.lineAt(i).text.trim() !== heading) {
+            continue;
+        }
+        
+        let lastContentLine = i;
+        for (let j = i + 1; j < document.lineCount; j++) {
+            const text = document.lineAt(j).text;
+            if (/^#{1,2} /.test(text)) {
+                break;
+            }
+            if (text.trim() !== '') {
+                lastContentLine = j;
+            }
+        }
+        
+        if (lastContentLine + 1 >= document.lineCount) {
+            // The section runs to the end of a file with no trailing newline
+            return document.lineAt(lastContentLine).range.end;
+        }
+        return new vscode.Position(lastContentLine + 1, 0);
     }
+    return undefined;
 }
 
 /**
@@ -0,0 +1,295 @@
+import {
+    MarkerOptions,
+    MarkerRange,
+    ParsedMarker,
+    TASK_STATUSES,
+    getCompletedDate,
+    parseMarker,
+    serializeMarker,
+    setAttribute
+} from './taskMarker';
+
+/**
+ * Problems with task lines that would otherwise be dropped or misread
+ * without a word: markers the parser does not recognise, fields the parser
+ * accepts but that cannot be right, and completed tasks with no date.
+ */
+
+export type TaskProblemCode =
+    | 'malformed-marker'
+    | 'unknown-status'
+    | 'unclosed-marker'
+    | 'missing-field'
+    | 'out-of-range'
+    | 'invalid-date'
+    | 'missing-done-date';
+
+/**
+ * A replacement within the problem's line
+ */
+export interface TaskProblemFix {
+    title: string;
+    range: MarkerRange;
+    newText: string;
+}
+
+export interface TaskProblem {
+    code: TaskProblemCode;
+    message: string;
+    range: MarkerRange;
+    severity: 'error' | 'warning';
+    fixes: TaskProblemFix[];
+}
+
+// Priority and difficulty run from 1 to 3
+const MIN_LEVEL = 1;
+const MAX_LEVEL = 3;
+
+// Something marker-shaped whose status is not one the parser knows
+const NEAR_MISS_REGEX = /-=\s*([A-Za-z][A-Za-z0-9]*)(?=[\s=])[^=]*=-/;
+// A known status whose marker is never closed
+const UNCLOSED_REGEX = /-=\s*(?:TODO|COMPLETE|ROLL)(?=\s|$)/;
+const SHORT_DATE_REGEX = /^(\d{2})(\d{2})(\d{2})$/;
+const LONG_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_KEYS = ['created', 'done', 'from', 'to', 'due'];
+
+interface Token {
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Find the problems on a single line.
+ * `doneDate` is written into completed tasks that have no date, in the
+ * format the caller wants.
+ */
+export function findTaskProblems(line: string, options: MarkerOptions, doneDate: string): TaskProblem[] {
+    const marker = parseMarker(line, options);
+    if (!marker) {
+        return findUnreadMarker(line);
+    }
+
+    const problems: TaskProblem[] = marker.errors.map(error => ({
+        code: 'malformed-marker',
+        message: error.message,
+        range: error.range,
+        severity: 'error',
+        fixes: []
+    }));
+
+    const { positional, attributes } = getFieldTokens(line, marker);
+    checkLevel(positional[0], 'Priority', problems);
+    if (positional.length === 2 && isDateLike(positional[1].value)) {
+        // e.g. -=TODO 2 250431=-, where the date has taken the difficulty's place
+        problems.push({
+            code: 'missing-field',
+            message: `Difficulty is missing, "${positional[1].value}" reads as the difficulty`,
+            range: positional[1],
+            severity: 'error',
+            fixes: [{ title: 'Insert difficulty 1', range: { start: positional[1].start, end: positional[1].start }, newText: '1 ' }]
+        });
+    } else {
+        checkLevel(positional[1], 'Difficulty', problems);
+    }
+
+    const dates = positional.slice(1).filter(token => isDateLike(token.value));
+    for (const token of attributes) {
+        const separator = token.value.indexOf(':');
+        if (DATE_KEYS.includes(token.value.substring(0, separator))) {
+            dates.push({ value: token.value.substring(separator + 1), start: token.start + separator + 1, end: token.end });
+        }
+    }
+    dates.forEach(token => checkDate(token, problems));
+
+    if (marker.status === 'COMPLETE' && !getCompletedDate(marker)) {
+        const problem: TaskProblem = {
+            code: 'missing-done-date',
+            message: 'Completed task has no completion date',
+            range: marker.range,
+            severity: 'warning',
+            fixes: []
+        };
+        // The whole line is rewritten, so only markers that parse cleanly get a fix
+        if (marker.errors.length === 0) {
+            setAttribute(marker, 'done', doneDate);
+            problem.fixes.push({ title: `Add completion date ${doneDate}`, range: { start: 0, end: line.length }, newText: serializeMarker(marker) });
+        }
+        problems.push(problem);
+    }
+
+    return problems;
+}
+
+/**
+ * Look for a marker the parser skipped, either because its status is
+ * misspelt or because it is never closed
+ */
+function findUnreadMarker(line: string): TaskProblem[] {
+    const nearMiss = NEAR_MISS_REGEX.exec(line);
+    if (nearMiss) {
+        const status = getClosestStatus(nearMiss[1]);
+        if (status) {
+            const start = nearMiss.index + nearMiss[0].indexOf(nearMiss[1]);
+            const range = { start, end: start + nearMiss[1].length };
+            return [{
+                code: 'unknown-status',
+                message: `Unknown task status "${nearMiss[1]}", did you mean ${status}?`,
+                range,
+                severity: 'error',
+                fixes: [{ title: `Change to ${status}`, range, newText: status }]
+            }];
+        }
+    }
+
+    const unclosed = UNCLOSED_REGEX.exec(line);
+    if (unclosed) {
+        // Close the marker after its leading fields
+        const tokens = tokenize(line.substring(unclosed.index + unclosed[0].length), unclosed.index + unclosed[0].length);
+        const fields = tokens.findIndex(token => !/^(\d+|\d{4}-\d{2}-\d{2}|[A-Za-z][\w-]*:\S+)$/.test(token.value));
+        const last = fields === -1 ? tokens[tokens.length - 1] : tokens[fields - 1];
+        const end = last ? last.end : unclosed.index + unclosed[0].length;
+        return [{
+            code: 'unclosed-marker',
+            message: 'Task marker is not closed with =-',
+            range: { start: unclosed.index, end },
+            severity: 'error',
+            fixes: [{ title: 'Close the marker', range: { start: end, end }, newText: '=-' }]
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Match a misspelt status, such as "TOD0" or "todo", to a known one
+ */
+function getClosestStatus(word: string): string | undefined {
+    const upper = word.toUpperCase();
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const status of TASK_STATUSES) {
+        const distance = getEditDistance(upper.replace(/0/g, 'O'), status);
+        // Allow one slip in short statuses and two in COMPLETE
+        if (distance <= Math.max(1, Math.floor(status.length / 4)) && distance < bestDistance) {
+            best = status;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Split a task's fields into the positional ones (priority, difficulty and
+ * due date) and key:value attributes, keeping their offsets in the line
+ */
+function getFieldTokens(line: string, marker: ParsedMarker): { positional: Token[]; attributes: Token[] } {
+    if (marker.style === 'checkbox') {
+        const attributes = tokenize(line.substring(marker.range.end), marker.range.end)
+            .filter(token => /^[A-Za-z][\w-]*:\S+$/.test(token.value));
+        // p: and d: stand in for the positional fields
+        const level = (key: string) => {
+            const token = attributes.find(candidate => candidate.value.startsWith(`${key}:`));
+            return token && { value: token.value.substring(2), start: token.start + 2, end: token.end };
+        };
+        return {
+            positional: [level('p'), level('d')].filter((token): token is Token => !!token),
+            attributes
+        };
+    }
+
+    const fields = line.substring(marker.range.start, marker.range.end - 2);
+    const statusEnd = marker.range.start + fields.indexOf(marker.status) + marker.status.length;
+    const tokens = tokenize(line.substring(statusEnd, marker.range.end - 2), statusEnd);
+    const firstAttribute = tokens.findIndex(token => /^[A-Za-z][\w-]*:\S+$/.test(token.value));
+    return firstAttribute === -1
+        ? { positional: tokens, attributes: [] }
+        : { positional: tokens.slice(0, firstAttribute), attributes: tokens.slice(firstAttribute) };
+}
+
+function tokenize(source: string, offset: number): Token[] {
+    const tokens: Token[] = [];
+    const tokenRegex = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(source)) !== null) {
+        tokens.push({ value: match[0], start: offset + match.index, end: offset + match.index + match[0].length });
+    }
+    return tokens;
+}
+
+/**
+ * Flag a priority or difficulty outside 1 to 3, offering the nearest value
+ */
+function checkLevel(token: Token | undefined, name: string, problems: TaskProblem[]): void {
+    // Fields that are not numbers are already reported by the parser
+    if (!token || !/^\d+$/.test(token.value)) {
+        return;
+    }
+    const value = parseInt(token.value, 10);
+    if (value >= MIN_LEVEL && value <= MAX_LEVEL) {
+        return;
+    }
+    const nearest = String(Math.min(Math.max(value, MIN_LEVEL), MAX_LEVEL));
+    problems.push({
+        code: 'out-of-range',
+        message: `${name} must be between ${MIN_LEVEL} and ${MAX_LEVEL}, got ${value}`,
+        range: token,
+        severity: 'error',
+        fixes: [{ title: `Change ${name.toLowerCase()} to ${nearest}`, range: token, newText: nearest }]
+    });
+}
+
+function isDateLike(value: string): boolean {
+    return SHORT_DATE_REGEX.test(value) || LONG_DATE_REGEX.test(value);
+}
+
+/**
+ * Flag dates that do not exist, such as 31 April, offering the last day of
+ * the month when only the day is wrong
+ */
+function checkDate(token: Token, problems: TaskProblem[]): void {
+    const short = SHORT_DATE_REGEX.exec(token.value);
+    const long = LONG_DATE_REGEX.exec(token.value);
+    const parts = short ?? long;
+    if (!parts) {
+        return;
+    }
+    const year = short ? 2000 + parseInt(parts[1], 10) : parseInt(parts[1], 10);
+    const month = parseInt(parts[2], 10);
+    const day = parseInt(parts[3], 10);
+    const lastDay = month >= 1 && month <= 12 ? new Date(year, month, 0).getDate() : 0;
+    if (day >= 1 && day <= lastDay) {
+        return;
+    }
+
+    const problem: TaskProblem = {
+        code: 'invalid-date',
+        message: `"${token.value}" is not a real date`,
+        range: token,
+        severity: 'error',
+        fixes: []
+    };
+    if (lastDay > 0 && day > lastDay) {
+        const fixed = short
+            ? `${parts[1]}${parts[2]}${String(lastDay).padStart(2, '0')}`
+            : `${parts[1]}-${parts[2]}-${String(lastDay).padStart(2, '0')}`;
+        problem.fixes.push({ title: `Change to ${fixed}`, range: token, newText: fixed });
+    }
+    problems.push(problem);
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { Task, getNoteDate } from './taskModel';
+import { formatDateYYYYMMDD, getRelativeDateDescription } from './dateFormatter';
+import { handleTaskError } from '../common/errorHandler';
+import { navigateToTask, toggleTask } from './taskNavigator';
+import { rollSelectedTasksToToday } from './taskRollover';
+import { getOpenTasksInOrder, matchesFuzzy } from './taskSearch';
+
+const COMPLETE_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('check'), tooltip: 'Complete' };
+const ROLL_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-right'), tooltip: 'Roll to today' };
+
+interface TaskItem extends vscode.QuickPickItem {
+    task: Task;
+}
+
+interface TaskSymbol {
+    symbol: vscode.SymbolInformation;
+    /** Text a query is matched against */
+    searchText: string;
+}
+
+/**
+ * Pick an open task from anywhere in the journal and go to it. Items match
+ * on the task text, its tags and the date of its note, and can be completed
+ * or rolled to today straight from the list.
+ */
+export async function goToTask(scanner: TaskScanner): Promise<void> {
+    try {
+        const allTasks = await scanner.getAllTasks();
+        const today = formatDateYYYYMMDD(new Date());
+
+        const openTasks = getOpenTasksInOrder(allTasks);
+
+        const quickPick = vscode.window.createQuickPick<TaskItem>();
+        quickPick.placeholder = 'Go to task: type part of its text, a #tag or a date';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = openTasks.map(task => {
+            const noteDate = getNoteDate(task.filePath);
+            const details = [`Priority ${task.priority}`];
+            if (task.dueDate) {
+                details.push(getRelativeDateDescription(task.dueDate));
+            }
+            return {
+                label: task.text || '(No description)',
+                description: noteDate || vscode.workspace.asRelativePath(task.filePath),
+                detail: details.join(' · '),
+                // Tasks already in today's note have nowhere to roll to
+                buttons: noteDate === today ? [COMPLETE_BUTTON] : [COMPLETE_BUTTON, ROLL_BUTTON],
+                task
+            };
+        });
+
+        quickPick.onDidAccept(async () => {
+            const [selected] = quickPick.selectedItems;
+            quickPick.hide();
+            if (selected) {
+                await navigateToTask(selected.task);
+            }
+        });
+        quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+            quickPick.hide();
+            if (button === COMPLETE_BUTTON) {
+                await toggleTask(item.task, scanner);
+            } else if (button === ROLL_BUTTON) {
+                await rollSelectedTasksToToday([item.task], allTasks);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    } catch (error) {
+        handleTaskError('Failed to list tasks', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Lists open tasks as workspace symbols, so Go to Symbol in Workspace finds them.
+ * The symbols are kept between queries until a note changes.
+ */
+export class TaskSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private symbols: Promise<TaskSymbol[]> | undefined;
+
+    constructor(private readonly scanner: TaskScanner) {
+        const invalidate = (document: vscode.TextDocument) => {
+            if (document.languageId === 'markdown') {
+                this.symbols = undefined;
+            }
+        };
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(invalidate),
+            vscode.workspace.onDidChangeTextDocument(e => invalidate(e.document)),
+            vscode.workspace.onDidCreateFiles(() => this.symbols = undefined),
+            vscode.workspace.onDidDeleteFiles(() => this.symbols = undefined),
+            vscode.workspace.onDidRenameFiles(() => this.symbols = undefined)
+        );
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+        // A note changing while the symbols are built only clears the cache for later queries
+        const symbols = this.symbols ?? this.buildSymbols();
+        this.symbols = symbols;
+        try {
+            return (await symbols)
+                .filter(({ searchText }) => matchesFuzzy(query, searchText))
+                .map(({ symbol }) => symbol);
+        } catch (error) {
+            if (this.symbols === symbols) {
+                this.symbols = undefined;
+            }
+            throw error;
+        }
+    }
+
+    private async buildSymbols(): Promise<TaskSymbol[]> {
+        const files = await this.scanner.findMarkdownFiles();
+        const uris = new Map(files.map(uri => [uri.fsPath, uri]));
+        const tasks = getOpenTasksInOrder(await this.scanner.getAllTasks());
+
+        const symbols: TaskSymbol[] = [];
+        for (const task of tasks) {
+            const uri = uris.get(task.filePath);
+            if (!uri) {
+                continue;
+            }
+            const noteDate = getNoteDate(task.filePath) ?? '';
+            symbols.push({
+                symbol: new vscode.SymbolInformation(
+                    task.text || '(No description)',
+                    vscode.SymbolKind.Event,
+                    noteDate || vscode.workspace.asRelativePath(uri),
+                    new vscode.Location(uri, new vscode.Position(task.line, 0))
+                ),
+                searchText: `${task.text} ${noteDate}`
+            });
+        }
+        return symbols;
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * Recurrence rules for repeating tasks, written in markers as `every:<rule>`:
+ *
+ * - `every:day`, `every:3d`            every N days
+ * - `every:week`, `every:2w`           every N weeks
+ * - `every:weekday`                    Monday to Friday
+ * - `every:mon`, `every:tue,thu`       on the given days of the week
+ * - `every:month`, `every:3m`          every N months, on the same day
+ * - `every:1st`, `every:15th`          monthly on the given day
+ * - `every:year`                       every twelve months
+ */
+export type Recurrence =
+    | { kind: 'days'; interval: number }
+    | { kind: 'weekdays'; days: number[] }
+    | { kind: 'months'; interval: number; day: number | null };
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const FULL_DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Parse the value of an `every:` attribute, returning null if it is not a valid rule
+ */
+export function parseRecurrence(value: string): Recurrence | null {
+    const rule = value.toLowerCase();
+    let match: RegExpMatchArray | null;
+
+    switch (rule) {
+        case 'day':
+        case 'daily':
+            return { kind: 'days', interval: 1 };
+        case 'week':
+        case 'weekly':
+            return { kind: 'days', interval: 7 };
+        case 'weekday':
+        case 'weekdays':
+            return { kind: 'weekdays', days: [1, 2, 3, 4, 5] };
+        case 'month':
+        case 'monthly':
+            return { kind: 'months', interval: 1, day: null };
+        case 'year':
+        case 'yearly':
+            return { kind: 'months', interval: 12, day: null };
+    }
+
+    if ((match = rule.match(/^(\d+)([dwm])$/)) && parseInt(match[1]) > 0) {
+        const count = parseInt(match[1]);
+        switch (match[2]) {
+            case 'd':
+                return { kind: 'days', interval: count };
+            case 'w':
+                return { kind: 'days', interval: count * 7 };
+            default:
+                return { kind: 'months', interval: count, day: null };
+        }
+    }
+
+    if ((match = rule.match(/^(\d{1,2})(st|nd|rd|th)$/))) {
+        const day = parseInt(match[1]);
+        return day >= 1 && day <= 31 ? { kind: 'months', interval: 1, day } : null;
+    }
+
+    // Comma-separated day names, e.g. "mon,thu" or "monday"
+    const days: number[] = [];
+    for (const name of rule.split(',')) {
+        const index = DAY_NAMES.findIndex((day, i) => name === day || name === FULL_DAY_NAMES[i].toLowerCase());
+        if (index < 0) {
+            return null;
+        }
+        if (!days.includes(index)) {
+            days.push(index);
+        }
+    }
+    return { kind: 'weekdays', days: days.sort() };
+}
+
+/**
+ * Find the first occurrence of a rule strictly after a date
+ * @param anchor the date the rule counts from, usually the current due date
+ * @param after occurrences on or before this date are skipped
+ */
+export function getNextOccurrence(recurrence: Recurrence, anchor: Date, after: Date): Date {
+    const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+    const limit = new Date(after.getFullYear(), after.getMonth(), after.getDate());
+
+    switch (recurrence.kind) {
+        case 'days': {
+            const next = new Date(start);
+            do {
+                next.setDate(next.getDate() + recurrence.interval);
+            } while (next <= limit);
+            return next;
+        }
+        case 'weekdays': {
+            const next = new Date(limit);
+            do {
+                next.setDate(next.getDate() + 1);
+            } while (!recurrence.days.includes(next.getDay()));
+            return next;
+        }
+        case 'months': {
+            const day = recurrence.day ?? start.getDate();
+            for (let step = 0; ; step += recurrence.interval) {
+                const month = start.getMonth() + step;
+                // Clamp to the last day for shorter months
+                const daysInMonth = new Date(start.getFullYear(), month + 1, 0).getDate();
+                const next = new Date(start.getFullYear(), month, Math.min(day, daysInMonth));
+                if (next > limit && (step > 0 || recurrence.day !== null)) {
+                    return next;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Describe a rule in words, e.g. "every 3 days" or "monthly on the 1st"
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+    switch (recurrence.kind) {
+        case 'days':
+            if (recurrence.interval === 1) {
+                return 'every day';
+            }
+            if (recurrence.interval % 7 === 0) {
+                const weeks = recurrence.interval / 7;
+                return weeks === 1 ? 'every week' : `every ${weeks} weeks`;
+            }
+            return `every ${recurrence.interval} days`;
+        case 'weekdays':
+            if (recurrence.days.join() === '1,2,3,4,5') {
+                return 'every weekday';
+            }
+            return `every ${recurrence.days.map(day => FULL_DAY_NAMES[day]).join(', ')}`;
+        case 'months': {
+            const every = recurrence.interval === 12 ? 'yearly'
+                : recurrence.interval === 1 ? 'monthly' : `every ${recurrence.interval} months`;
+            return recurrence.day === null ? every : `${every} on the ${ordinal(recurrence.day)}`;
+        }
+    }
+}
+
+function ordinal(day: number): string {
+    const suffix = day % 10 === 1 && day !== 11 ? 'st'
+        : day % 10 === 2 && day !== 12 ? 'nd'
+        : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+    return `${day}${suffix}`;
+}
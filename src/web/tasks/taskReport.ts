@@ -0,0 +1,193 @@
+import { Task, getNoteDate } from './taskModel';
+import { TASK_STATUSES, TaskStatus } from './taskMarker';
+
+/**
+ * Filters for exporting tasks, written as space-separated terms:
+ *
+ * - `status:todo,complete`  only these statuses (todo, complete, roll)
+ * - `from:2025-03-01`       on or after a date
+ * - `to:2025-03-31`         on or before a date
+ * - `date:due`              which date from/to compare: note (default), due, created or completed
+ * - `priority:2`            exact priority; `priority:>=2` and `priority:<=2` also work
+ * - `folder:Journal/2025`   only files under a folder, given from the workspace root
+ */
+export interface TaskQuery {
+    statuses?: TaskStatus[];
+    from?: string;
+    to?: string;
+    dateField: 'note' | 'due' | 'created' | 'completed';
+    minPriority?: number;
+    maxPriority?: number;
+    folder?: string;
+}
+
+/**
+ * A task as written to an export, with the date of the note it is in
+ */
+export interface ExportedTask extends Task {
+    noteDate: string | null;
+}
+
+const DATE_FIELDS: TaskQuery['dateField'][] = ['note', 'due', 'created', 'completed'];
+
+// Columns for CSV exports, covering every task field
+const CSV_COLUMNS: (keyof ExportedTask)[] = [
+    'noteDate', 'status', 'priority', 'difficulty', 'text',
+    'dueDate', 'createdDate', 'completedDate',
+    'tags', 'contexts', 'projects', 'waitingFor',
+    'rolledFrom', 'rolledTo', 'recurrence', 'blockedBy', 'blocked',
+    'id', 'style', 'filePath', 'line', 'indent', 'parentLine', 'progress'
+];
+
+/**
+ * Parse a query string, collecting a message for each term that can't be read
+ */
+export function parseTaskQuery(text: string): { query: TaskQuery; errors: string[] } {
+    const query: TaskQuery = { dateField: 'note' };
+    const errors: string[] = [];
+
+    for (const term of text.split(/\s+/).filter(term => term)) {
+        const separator = term.indexOf(':');
+        const key = term.substring(0, separator).toLowerCase();
+        const value = term.substring(separator + 1);
+
+        switch (separator > 0 ? key : '') {
+            case 'status': {
+                const statuses = value.toUpperCase().split(',') as TaskStatus[];
+                const unknown = statuses.filter(status => !TASK_STATUSES.includes(status));
+                if (unknown.length > 0) {
+                    errors.push(`Unknown status "${unknown.join(', ').toLowerCase()}"`);
+                } else {
+                    query.statuses = statuses;
+                }
+                break;
+            }
+            case 'from':
+            case 'to':
+                if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+                    errors.push(`${key} must be a YYYY-MM-DD date, got "${value}"`);
+                } else {
+                    query[key as 'from' | 'to'] = value;
+                }
+                break;
+            case 'date':
+                if (!DATE_FIELDS.includes(value as TaskQuery['dateField'])) {
+                    errors.push(`date must be one of ${DATE_FIELDS.join(', ')}, got "${value}"`);
+                } else {
+                    query.dateField = value as TaskQuery['dateField'];
+                }
+                break;
+            case 'priority': {
+                const match = /^(>=|<=)?(\d+)$/.exec(value);
+                if (!match) {
+                    errors.push(`priority must be a number, optionally with >= or <=, got "${value}"`);
+                    break;
+                }
+                const priority = parseInt(match[2], 10);
+                if (match[1] !== '<=') {
+                    query.minPriority = priority;
+                }
+                if (match[1] !== '>=') {
+                    query.maxPriority = priority;
+                }
+                break;
+            }
+            case 'folder':
+                query.folder = value.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+                break;
+            default:
+                errors.push(`Unknown filter "${term}"`);
+        }
+    }
+
+    return { query, errors };
+}
+
+/**
+ * Keep the tasks that match every filter in a query
+ * @param getRelativePath gives a task file's path from the workspace root, for `folder:`
+ */
+export function filterTasksByQuery(
+    tasks: Task[],
+    query: TaskQuery,
+    getRelativePath: (filePath: string) => string = filePath => filePath
+): Task[] {
+    return tasks.filter(task => {
+        if (query.statuses && !query.statuses.includes(task.status)) {
+            return false;
+        }
+        if (query.minPriority !== undefined && task.priority < query.minPriority) {
+            return false;
+        }
+        if (query.maxPriority !== undefined && task.priority > query.maxPriority) {
+            return false;
+        }
+        if (query.folder && !getRelativePath(task.filePath).replace(/\\/g, '/').startsWith(`${query.folder}/`)) {
+            return false;
+        }
+        if (query.from || query.to) {
+            const date = getQueryDate(task, query.dateField);
+            // Tasks without the date can't be placed in the range
+            if (!date || (query.from && date < query.from) || (query.to && date > query.to)) {
+                return false;
+            }
+        }
+        return true;
+    });
+}
+
+/**
+ * Add the note date to each task for export
+ */
+export function toExportedTasks(tasks: Task[]): ExportedTask[] {
+    return tasks.map(task => ({ ...task, noteDate: getNoteDate(task.filePath) }));
+}
+
+/**
+ * Write tasks as a JSON array
+ */
+export function tasksToJson(tasks: ExportedTask[]): string {
+    return JSON.stringify(tasks, null, 2) + '\n';
+}
+
+/**
+ * Write tasks as CSV with a header row. Lists are joined with spaces and
+ * progress is written as "done/total".
+ */
+export function tasksToCsv(tasks: ExportedTask[]): string {
+    const rows = [CSV_COLUMNS.join(',')];
+    for (const task of tasks) {
+        rows.push(CSV_COLUMNS.map(column => escapeCsv(formatCsvValue(task[column]))).join(','));
+    }
+    return rows.join('\r\n') + '\r\n';
+}
+
+function getQueryDate(task: Task, field: TaskQuery['dateField']): string | undefined {
+    switch (field) {
+        case 'due':
+            return task.dueDate;
+        case 'created':
+            return task.createdDate;
+        case 'completed':
+            return task.completedDate;
+        default:
+            return getNoteDate(task.filePath) ?? undefined;
+    }
+}
+
+function formatCsvValue(value: ExportedTask[keyof ExportedTask]): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.join(' ');
+    }
+    if (typeof value === 'object') {
+        return `${value.done}/${value.total}`;
+    }
+    return String(value);
+}
+
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
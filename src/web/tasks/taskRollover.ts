@@ -1,16 +1,17 @@
 import * as vscode from 'vscode';
-import { Task } from './taskModel';
+import { Task, findTaskLine, getDescendants, getNoteDate, getSubtasks, taskToMarker } from './taskModel';
+import { createTaskId, parseMarker, serializeMarker, setAttribute } from './taskMarker';
 import { TaskScanner } from './taskScanner';
 import { ConfigService } from '../common/configService';
 import { handleTaskError } from '../common/errorHandler';
 import { formatDateForTask, formatDateYYYYMMDD, getISOWeek, parseTaskDate } from './dateFormatter';
 import { createNote } from '../fileManager';
-import { findInsertPositionInNote } from './taskNavigator';
+import { findInsertPositionInNote, getDocumentLines, getDocumentTaskIds } from './taskNavigator';
 
 /**
  * Roll over all uncompleted tasks from past notes to today's note
  */
-export async function rollTasksToToday(): Promise<void> {
+export async function rollTasksToToday(taskScanner: TaskScanner): Promise<void> {
     try {
         // Show progress notification
         await vscode.window.withProgress({
@@ -26,9 +27,9 @@ export async function rollTasksToToday(): Promise<void> {
             
             progress.report({ increment: 20, message: "Scanning for tasks..." });
             
-            // Scan for all open tasks
-            const taskScanner = new TaskScanner();
-            const allOpenTasks = await taskScanner.getOpenTasks();
+            // Scan for all tasks, keeping completed ones for subtask structure
+            const allTasks = await taskScanner.getAllTasks();
+            const allOpenTasks = allTasks.filter(task => task.status === 'TODO');
             
             console.log(`Total open tasks found: ${allOpenTasks.length}`);
 
@@ -44,41 +45,13 @@ export async function rollTasksToToday(): Promise<void> {
             
             progress.report({ increment: 30, message: `Found ${pastTasks.length} tasks to roll over` });
             
-            // Create today's note and prepare path
-            await createNote(todayDateStr, undefined);
-            const todayFilePath = await buildTodayNotePath(today);
-            
-            if (!todayFilePath) {
-                handleTaskError("Could not determine the path for today's note");
+            const rolledCount = await moveTasksToToday(pastTasks, allTasks, progress);
+            if (rolledCount === 0) {
                 return;
             }
             
-            progress.report({ increment: 40, message: "Opening today's note..." });
-            
-            const todayDoc = await vscode.workspace.openTextDocument(todayFilePath);
-            await vscode.window.showTextDocument(todayDoc);
-            
-            progress.report({ increment: 50, message: "Moving tasks to today's note..." });
-            
-            // Group tasks by file for efficient processing
-            const tasksByFile = groupTasksByFile(pastTasks);
-            
-            // Add tasks to today's note
-            await addTasksToTodaysNote(todayDoc, pastTasks, todayDateStr);
-            
-            progress.report({ increment: 70, message: "Marking original tasks as moved..." });
-            
-            // Mark original tasks as moved
-            await markOriginalTasksAsMoved(tasksByFile, todayDateStr);
-            
-            // Save today's note
-            const todayEditor = vscode.window.activeTextEditor;
-            if (todayEditor && todayEditor.document.uri.fsPath === todayFilePath.fsPath) {
-                await todayEditor.document.save();
-            }
-            
             progress.report({ increment: 100, message: "Done!" });
-            vscode.window.showInformationMessage(`Successfully rolled over ${pastTasks.length} tasks to today's note.`);
+            vscode.window.showInformationMessage(`Successfully rolled over ${rolledCount} tasks to today's note.`);
         });
     } catch (error) {
         handleTaskError("Failed to roll tasks to today", 
@@ -86,11 +59,171 @@ export async function rollTasksToToday(): Promise<void> {
     }
 }
 
+/**
+ * Roll specific tasks, together with their open subtasks, to today's note
+ * @param allTasks tasks of the source files, used to find subtasks
+ */
+export async function rollSelectedTasksToToday(tasks: Task[], allTasks: Task[]): Promise<void> {
+    try {
+        const rolledCount = await moveTasksToToday(tasks, allTasks);
+        if (rolledCount > 0) {
+            vscode.window.showInformationMessage(`Rolled ${rolledCount} task${rolledCount > 1 ? 's' : ''} to today's note.`);
+        }
+    } catch (error) {
+        handleTaskError("Failed to roll tasks to today", 
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Add rolling tasks in a note, with their open subtasks, to today's note to
+ * an edit, so they are applied and undone together with other changes to
+ * the note. The tasks must still be on the lines they were read from.
+ * @param documentTasks tasks of the note, used to find subtasks
+ * @param taskIds IDs already used in the note, including ones the edit adds
+ * @returns the note the tasks are copied into, to save once the edit is
+ * applied, and the number of tasks rolled, or undefined if there is nowhere
+ * to roll them to
+ */
+export async function addRollToEdit(
+    edit: vscode.WorkspaceEdit,
+    document: vscode.TextDocument,
+    tasks: Task[],
+    documentTasks: Task[],
+    taskIds: Set<string> = getDocumentTaskIds(document)
+): Promise<{ note: vscode.TextDocument; count: number } | undefined> {
+    const todayDateStr = formatDateYYYYMMDD(new Date());
+    const todayUri = await createNote(todayDateStr, undefined, { reveal: false });
+    // Tasks already in today's note have nowhere to roll to
+    if (!todayUri || todayUri.toString() === document.uri.toString()) {
+        return undefined;
+    }
+    const todayDoc = await vscode.workspace.openTextDocument(todayUri);
+    
+    const entries = collectSubtrees(tasks, documentTasks);
+    const markerOptions = ConfigService.getInstance().getMarkerOptions();
+    for (const { task } of entries) {
+        const line = document.lineAt(task.line);
+        const marker = parseMarker(line.text, markerOptions)!;
+        marker.status = 'ROLL';
+        setAttribute(marker, 'to', todayDateStr);
+        if (!marker.id) {
+            marker.id = createTaskId(taskIds);
+            taskIds.add(marker.id);
+        }
+        edit.replace(document.uri, line.range, serializeMarker(marker));
+    }
+    
+    const { position, text } = buildRolledTasksInsert(todayDoc, entries);
+    edit.insert(todayDoc.uri, position, text);
+    return { note: todayDoc, count: entries.length };
+}
+
+/**
+ * Mark tasks and their open subtasks as rolled and copy them into today's note.
+ * Originals are marked first, so a task that can no longer be found in its
+ * note is left out rather than copied twice.
+ * @returns the number of tasks moved
+ */
+async function moveTasksToToday(
+    tasks: Task[],
+    allTasks: Task[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<number> {
+    const today = new Date();
+    const todayDateStr = formatDateYYYYMMDD(today);
+    
+    // Subtasks move together with their parent
+    const entries = collectSubtrees(tasks, allTasks);
+    const rolledTasks = entries.map(entry => entry.task);
+    
+    // Create today's note and prepare path
+    await createNote(todayDateStr, undefined);
+    const todayFilePath = await buildTodayNotePath(today);
+    
+    if (!todayFilePath) {
+        handleTaskError("Could not determine the path for today's note");
+        return 0;
+    }
+    
+    progress?.report({ increment: 40, message: "Marking original tasks as moved..." });
+    
+    // Group tasks by file for efficient processing
+    const tasksByFile = groupTasksByFile(rolledTasks);
+    
+    // Mark original tasks as moved
+    const movedTasks = await markOriginalTasksAsMoved(tasksByFile, todayDateStr);
+    const movedEntries = entries.filter(entry => movedTasks.has(entry.task));
+    if (movedEntries.length === 0) {
+        return 0;
+    }
+    
+    progress?.report({ increment: 50, message: "Opening today's note..." });
+    
+    const todayDoc = await vscode.workspace.openTextDocument(todayFilePath);
+    await vscode.window.showTextDocument(todayDoc);
+    
+    progress?.report({ increment: 70, message: "Moving tasks to today's note..." });
+    
+    // Add tasks to today's note
+    await addTasksToTodaysNote(todayDoc, movedEntries, todayDateStr);
+    
+    // Save today's note
+    const todayEditor = vscode.window.activeTextEditor;
+    if (todayEditor && todayEditor.document.uri.fsPath === todayFilePath.fsPath) {
+        await todayEditor.document.save();
+    }
+    
+    return movedEntries.length;
+}
+
+/**
+ * Expand tasks to include their open subtasks, ordered so that each subtree
+ * stays together, with each task's depth below the top of its subtree
+ */
+function collectSubtrees(tasks: Task[], allTasks: Task[]): { task: Task; depth: number }[] {
+    const key = (task: Task) => `${task.filePath}:${task.line}`;
+    const selected = new Map<string, Task>();
+    for (const task of tasks) {
+        selected.set(key(task), task);
+        getDescendants(task, allTasks)
+            .filter(descendant => descendant.status === 'TODO')
+            .forEach(descendant => selected.set(key(descendant), descendant));
+    }
+    
+    const entries: { task: Task; depth: number }[] = [];
+    const visit = (task: Task, depth: number) => {
+        entries.push({ task, depth });
+        getSubtasks(task, allTasks)
+            .filter(subtask => selected.has(key(subtask)))
+            .forEach(subtask => visit(subtask, depth + 1));
+    };
+    
+    // Start from tasks whose parent is not moving with them
+    for (const task of selected.values()) {
+        if (task.parentLine === undefined || !selected.has(`${task.filePath}:${task.parentLine}`)) {
+            visit(task, 0);
+        }
+    }
+    
+    return entries;
+}
+
 /**
  * Filter tasks to get only those that are past due or due today
  */
 function filterPastTasks(allTasks: Task[], todayDateStr: string): Task[] {
     return allTasks.filter(task => {
+        // Tasks already in today's note have nowhere to roll to
+        if (getNoteDate(task.filePath) === todayDateStr) {
+            return false;
+        }
+        
+        // Tasks without a due date stay where they are
+        if (!task.dueDate) {
+            return false;
+        }
+        
         try {
             // Compare due date with today's date
             const dueDate = parseTaskDate(task.dueDate);
@@ -139,49 +272,57 @@ function groupTasksByFile(tasks: Task[]): Map<string, Task[]> {
  */
 async function addTasksToTodaysNote(
     document: vscode.TextDocument, 
-    tasks: Task[], 
+    entries: { task: Task; depth: number }[], 
     todayDateStr: string
 ): Promise<void> {
-    let insertPosition = findInsertPositionInNote(document);
-    
-    await vscode.window.activeTextEditor?.edit(editBuilder => {
-        // First add a heading for rolled over tasks if needed
-        if (tasks.length > 0) {
-            // Check if the section already exists
-            let sectionExists = false;
-            for (let i = 0; i < document.lineCount; i++) {
-                const line = document.lineAt(i).text;
-                if (line.startsWith('## Rollovered Tasks') || line.startsWith('## Rolled Over Tasks')) {
-                    sectionExists = true;
-                    break;
-                }
-            }
-            
-            if (!sectionExists) {
-                editBuilder.insert(
-                    insertPosition,
-                    `\n## Rollovered Tasks\n\n`
-                );
-                insertPosition = new vscode.Position(insertPosition.line + 3, 0);
-            }
-        }
-        
-        // Add each task
-        for (const task of tasks) {
-            const taskLine = `-=TODO ${task.priority} ${task.difficulty} ${task.dueDate}=- ${task.text}\n`;
-            editBuilder.insert(insertPosition, taskLine);
-            insertPosition = new vscode.Position(insertPosition.line + 1, 0);
-        }
-    });
+    const { position, text } = buildRolledTasksInsert(document, entries);
+    await vscode.window.activeTextEditor?.edit(editBuilder => editBuilder.insert(position, text));
 }
 
 /**
- * Mark original tasks as moved in their source files
+ * Build the text that adds rolled tasks to today's note, with a heading for
+ * them if the note doesn't have one yet, and where it goes
+ */
+function buildRolledTasksInsert(
+    document: vscode.TextDocument,
+    entries: { task: Task; depth: number }[]
+): { position: vscode.Position; text: string } {
+    const taskIds = getDocumentTaskIds(document);
+    let text = '';
+    
+    // First add a heading for rolled over tasks if needed
+    const sectionExists = getDocumentLines(document).some(line =>
+        line.startsWith('## Rollovered Tasks') || line.startsWith('## Rolled Over Tasks')
+    );
+    if (entries.length > 0 && !sectionExists) {
+        text += `\n## Rollovered Tasks\n\n`;
+    }
+    
+    // Add each task, indenting subtasks under their parent
+    for (const { task, depth } of entries) {
+        // Record which note the task came from
+        const marker = taskToMarker(task, 'TODO', ConfigService.getInstance().getTaskDateFormat());
+        setAttribute(marker, 'from', getNoteDate(task.filePath) || undefined);
+        marker.prefix = '    '.repeat(depth);
+        marker.id = createTaskId(taskIds);
+        taskIds.add(marker.id);
+        text += `${serializeMarker(marker)}\n`;
+    }
+    
+    return { position: findInsertPositionInNote(document), text };
+}
+
+/**
+ * Mark original tasks as moved in their source files, finding each task by
+ * its ID or text rather than trusting the line it was scanned at
+ * @returns the tasks that were found and marked
  */
 async function markOriginalTasksAsMoved(
     tasksByFile: Map<string, Task[]>, 
     todayDateStr: string
-): Promise<void> {
+): Promise<Set<Task>> {
+    const movedTasks = new Set<Task>();
+    
     for (const [filePath, tasks] of tasksByFile.entries()) {
         try {
             const fileUri = filePath.startsWith('file:') 
@@ -191,22 +332,41 @@ async function markOriginalTasksAsMoved(
             const sourceDoc = await vscode.workspace.openTextDocument(fileUri);
             const editor = await vscode.window.showTextDocument(sourceDoc);
             
-            // Sort tasks by line number in descending order to avoid line number shifts
-            tasks.sort((a, b) => b.line - a.line);
+            // Find where each task is now
+            const lines = getDocumentLines(sourceDoc);
+            const markerOptions = ConfigService.getInstance().getMarkerOptions();
+            const taskIds = getDocumentTaskIds(sourceDoc);
+            const markedLines = new Set<number>();
+            let missingCount = 0;
             
             await editor.edit(editBuilder => {
                 for (const task of tasks) {
-                    if (task.line >= 0 && task.line < sourceDoc.lineCount) {
-                        const line = sourceDoc.lineAt(task.line);
-                        const lineText = line.text;
-                        
-                        // Replace TODO with ROLL in the task marker
-                        const modifiedText = lineText.replace(/-=TODO /, '-=ROLL ');
-                        editBuilder.replace(line.range, modifiedText);
+                    const lineNumber = findTaskLine(task, lines, markerOptions);
+                    const marker = lineNumber !== undefined ? parseMarker(lines[lineNumber], markerOptions) : null;
+                    
+                    // Replace TODO with ROLL and record where the task went
+                    if (lineNumber === undefined || markedLines.has(lineNumber) || marker?.status !== 'TODO') {
+                        missingCount++;
+                        continue;
                     }
+                    marker.status = 'ROLL';
+                    setAttribute(marker, 'to', todayDateStr);
+                    if (!marker.id) {
+                        marker.id = createTaskId(taskIds);
+                        taskIds.add(marker.id);
+                    }
+                    editBuilder.replace(sourceDoc.lineAt(lineNumber).range, serializeMarker(marker));
+                    markedLines.add(lineNumber);
+                    movedTasks.add(task);
                 }
             });
             
+            if (missingCount > 0) {
+                vscode.window.showWarningMessage(
+                    `${missingCount} task${missingCount > 1 ? 's' : ''} in ${filePath} changed since the last scan and ${missingCount > 1 ? 'were' : 'was'} not rolled over.`
+                );
+            }
+            
             // Save the modified file
             await sourceDoc.save();
         } catch (error) {
@@ -214,6 +374,8 @@ async function markOriginalTasksAsMoved(
             vscode.window.showWarningMessage(`Failed to mark tasks as moved in ${filePath}`);
         }
     }
+    
+    return movedTasks;
 }
 
 /**
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { Task, parseTask } from './taskModel';
+import { Task, parseTasksInLines } from './taskModel';
+import { markBlockedTasks } from './taskDependencies';
 import { ConfigService } from '../common/configService';
 import { handleTaskError } from '../common/errorHandler';
 
@@ -11,30 +12,48 @@ interface TaskCache {
     fileTimestamps: Map<string, number>; // Track file timestamps
 }
 
-export class TaskScanner {
+/**
+ * Finds the tasks in every note of the journal. One scanner is shared by
+ * the whole extension, so its cache is only built once.
+ */
+export class TaskScanner implements vscode.Disposable {
     private cache: TaskCache | null = null;
     private scanInProgress = false;
     private journalFolderPath: string | null = null;
     private configService: ConfigService;
+    private readonly disposables: vscode.Disposable[] = [];
+    // Files edited or saved since they were last scanned, by path
+    private readonly staleFiles = new Map<string, vscode.Uri>();
     
     constructor() {
         this.configService = ConfigService.getInstance();
         
-        // Listen for file changes
-        vscode.workspace.onDidSaveTextDocument(doc => {
-            if (this.isMarkdownInJournalFolder(doc.uri.fsPath)) {
-                this.invalidateFileInCache(doc.uri.fsPath);
-            }
-        });
-        
-        // Listen for config changes that might affect journal path
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('calmdown.folderPath')) {
-                // Reset cache when journal folder changes
-                this.cache = null;
-                this.journalFolderPath = null;
-            }
-        });
+        this.disposables.push(
+            // Listen for file changes, including unsaved edits
+            vscode.workspace.onDidSaveTextDocument(doc => {
+                if (this.isMarkdownInJournalFolder(doc.uri.fsPath)) {
+                    this.invalidateFileInCache(doc.uri);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.contentChanges.length > 0 && this.isMarkdownInJournalFolder(e.document.uri.fsPath)) {
+                    this.invalidateFileInCache(e.document.uri);
+                }
+            }),
+            
+            // Listen for config changes that might affect journal path
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('calmdown.folderPath')) {
+                    // Reset cache when journal folder changes
+                    this.cache = null;
+                    this.journalFolderPath = null;
+                }
+            })
+        );
+    }
+    
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
     }
     
     private isMarkdownInJournalFolder(fsPath: string): boolean {
@@ -44,17 +63,33 @@ export class TaskScanner {
         return fsPath.startsWith(this.journalFolderPath) && fsPath.endsWith('.md');
     }
     
-    private invalidateFileInCache(filePath: string): void {
+    private invalidateFileInCache(uri: vscode.Uri): void {
         if (this.cache) {
-            // Remove tasks from this file from cache
-            this.cache.tasks = this.cache.tasks.filter(task => task.filePath !== filePath);
             // Remove the file version from tracking
-            this.cache.fileVersions.delete(filePath);
+            this.cache.fileVersions.delete(uri.fsPath);
             // Remove file timestamp
-            this.cache.fileTimestamps.delete(filePath);
+            this.cache.fileTimestamps.delete(uri.fsPath);
+            // Rescan just this file on the next request
+            this.staleFiles.set(uri.fsPath, uri);
         }
     }
     
+    /**
+     * Rescan the files changed since the last scan, keeping the rest of the cache
+     */
+    private async refreshStaleFiles(cache: TaskCache): Promise<void> {
+        for (const [filePath, uri] of this.staleFiles) {
+            this.staleFiles.delete(filePath);
+            const tasks = await this.scanFileForTasks(uri);
+            // Keep the file's tasks where they were, so the order stays stable
+            const index = cache.tasks.findIndex(task => task.filePath === filePath);
+            const rest = cache.tasks.filter(task => task.filePath !== filePath);
+            rest.splice(index < 0 ? rest.length : index, 0, ...tasks);
+            cache.tasks = rest;
+        }
+        markBlockedTasks(cache.tasks);
+    }
+    
     /**
      * Get journal folder path from configuration
      */
@@ -67,7 +102,7 @@ export class TaskScanner {
     /**
      * Find all markdown files in the Journal folder and its subfolders
      */
-    private async findMarkdownFiles(): Promise<vscode.Uri[]> {
+    public async findMarkdownFiles(): Promise<vscode.Uri[]> {
         const journalFolderPath = await this.getJournalFolderPath();
         if (!journalFolderPath) {
             return [];
@@ -135,18 +170,14 @@ export class TaskScanner {
                 return this.cache!.tasks.filter(task => task.filePath === file.fsPath);
             }
             
-            const tasks: Task[] = [];
-            
+            const lines: string[] = [];
             for (let i = 0; i < document.lineCount; i++) {
-                const line = document.lineAt(i).text;
-                // When parsing tasks, ensure we're interpreting the date as due date
-                const task = parseTask(line, file.fsPath, i);
-                
-                if (task) {
-                    tasks.push(task);
-                }
+                lines.push(document.lineAt(i).text);
             }
             
+            // Parse tasks along with their subtask structure
+            const tasks = parseTasksInLines(lines, file.fsPath, this.configService.getMarkerOptions());
+            
             // Update the cache with file information
             if (this.cache) {
                 this.cache.fileVersions.set(file.fsPath, fileVersion);
@@ -171,13 +202,24 @@ export class TaskScanner {
      * Get all open tasks
      */
     public async getOpenTasks(): Promise<Task[]> {
+        const tasks = await this.getAllTasks();
+        return tasks.filter(task => task.status === 'TODO');
+    }
+    
+    /**
+     * Get every task in the journal, including completed and rolled ones
+     */
+    public async getAllTasks(): Promise<Task[]> {
         const cacheTimeout = this.configService.getTaskCacheTimeout();
         
         // Check if we have a recent cache
         const currentTime = Date.now();
         if (this.cache && (currentTime - this.cache.lastScanTime < cacheTimeout) && !this.scanInProgress) {
-            // Return cached open tasks if cache is still valid
-            return this.cache.tasks.filter(task => task.status === 'TODO');
+            // Return cached tasks if cache is still valid, after catching up with edits
+            if (this.staleFiles.size > 0) {
+                await this.refreshStaleFiles(this.cache);
+            }
+            return this.cache.tasks;
         }
         
         // If a scan is already in progress, wait for it
@@ -190,12 +232,14 @@ export class TaskScanner {
             }
             
             if (this.cache) {
-                return this.cache.tasks.filter(task => task.status === 'TODO');
+                return this.cache.tasks;
             }
         }
         
         try {
             this.scanInProgress = true;
+            // Every file is checked below
+            this.staleFiles.clear();
             
             // Initialize or reset cache
             if (!this.cache) {
@@ -226,6 +270,9 @@ export class TaskScanner {
                 }
             }
             
+            // Dependencies can point across files, so work them out once everything is scanned
+            markBlockedTasks(allTasks);
+            
             // Update cache
             this.cache = {
                 tasks: allTasks,
@@ -234,7 +281,7 @@ export class TaskScanner {
                 fileTimestamps: this.cache.fileTimestamps
             };
             
-            return allTasks.filter(task => task.status === 'TODO');
+            return allTasks;
         } catch (err) {
             handleTaskError('Error scanning for tasks', 
                          err instanceof Error ? err : new Error(String(err)));
@@ -243,26 +290,4 @@ export class TaskScanner {
             this.scanInProgress = false;
         }
     }
-    
-    /**
-     * Navigate to a specific task
-     */
-    public async navigateToTask(task: Task): Promise<void> {
-        try {
-            const document = await vscode.workspace.openTextDocument(task.filePath);
-            const editor = await vscode.window.showTextDocument(document);
-            
-            const position = new vscode.Position(task.line, 0);
-            const selection = new vscode.Selection(position, position);
-            
-            editor.selection = selection;
-            editor.revealRange(
-                new vscode.Range(position, position),
-                vscode.TextEditorRevealType.InCenter
-            );
-        } catch (err) {
-            handleTaskError(`Could not navigate to task: ${err}`,
-                         err instanceof Error ? err : new Error(String(err)));
-        }
-    }
 }
\ No newline at end of file
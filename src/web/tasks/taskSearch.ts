@@ -0,0 +1,34 @@
+import { Task } from './taskModel';
+
+/**
+ * Finding open tasks from anywhere in the journal, for Go to Task and
+ * Go to Symbol in Workspace
+ */
+
+/**
+ * Get the open tasks, soonest due first, then highest priority.
+ * Tasks without a due date come last.
+ */
+export function getOpenTasksInOrder(tasks: Task[]): Task[] {
+    return tasks
+        .filter(task => task.status === 'TODO')
+        .sort((a, b) =>
+            (a.dueDate ?? '9999-99-99').localeCompare(b.dueDate ?? '9999-99-99') || b.priority - a.priority
+        );
+}
+
+/**
+ * Whether the characters of a query appear in order in some text, ignoring
+ * case and spaces
+ */
+export function matchesFuzzy(query: string, text: string): boolean {
+    const target = text.toLowerCase();
+    let index = 0;
+    for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+        index = target.indexOf(char, index) + 1;
+        if (index === 0) {
+            return false;
+        }
+    }
+    return true;
+}
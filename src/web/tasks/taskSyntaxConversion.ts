@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { MarkerStyle, convertMarkerStyle, parseMarker, serializeMarker } from './taskMarker';
+
+const STYLE_NAMES: Record<MarkerStyle, string> = {
+    marker: '-=TODO=- markers',
+    checkbox: '- [ ] checkboxes'
+};
+
+/**
+ * Rewrite every task in the active note as markers or checkboxes
+ */
+export async function convertNoteTaskSyntax(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Open a note to convert its tasks.');
+        return;
+    }
+
+    try {
+        const style = await pickStyle();
+        if (!style) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const { changed, skipped } = addConversionEdits(edit, editor.document, style);
+        if (changed > 0) {
+            await vscode.workspace.applyEdit(edit);
+        }
+        await reportConversion(style, changed, skipped);
+    } catch (error) {
+        handleTaskError('Failed to convert tasks',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Rewrite every task in the journal as markers or checkboxes.
+ * The changes are shown in the refactor preview and applied as a single,
+ * undoable workspace edit.
+ */
+export async function convertJournalTaskSyntax(scanner: TaskScanner): Promise<void> {
+    try {
+        const style = await pickStyle();
+        if (!style) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: `Convert tasks to ${STYLE_NAMES[style]}`,
+            needsConfirmation: true
+        };
+        let changed = 0;
+        let skipped = 0;
+
+        const files = await scanner.findMarkdownFiles();
+        for (const file of files) {
+            const document = await vscode.workspace.openTextDocument(file);
+            const counts = addConversionEdits(edit, document, style, metadata);
+            changed += counts.changed;
+            skipped += counts.skipped;
+        }
+
+        if (changed > 0 && !await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+            return;
+        }
+        await reportConversion(style, changed, skipped);
+    } catch (error) {
+        handleTaskError('Failed to convert tasks',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Ask which syntax to convert tasks to
+ */
+async function pickStyle(): Promise<MarkerStyle | undefined> {
+    const styles: MarkerStyle[] = ['checkbox', 'marker'];
+    const picked = await vscode.window.showQuickPick(
+        styles.map(style => ({ label: STYLE_NAMES[style], style })),
+        { placeHolder: 'Convert tasks to' }
+    );
+    return picked?.style;
+}
+
+/**
+ * Add a replacement for every task line in a document that is not yet in the
+ * target syntax. Malformed tasks are left alone.
+ */
+function addConversionEdits(
+    edit: vscode.WorkspaceEdit,
+    document: vscode.TextDocument,
+    style: MarkerStyle,
+    metadata?: vscode.WorkspaceEditEntryMetadata
+): { changed: number; skipped: number } {
+    let changed = 0;
+    let skipped = 0;
+
+    for (let i = 0; i < document.lineCount; i++) {
+        const line = document.lineAt(i);
+        // Checkboxes are always read here, whatever the setting, so they can be converted back
+        const marker = parseMarker(line.text, { checkboxes: true });
+        if (!marker || marker.errors.length > 0 || (marker.style ?? 'marker') === style) {
+            continue;
+        }
+
+        const converted = convertMarkerStyle(marker, style);
+        if (!converted) {
+            skipped++;
+            continue;
+        }
+        if (metadata) {
+            edit.replace(document.uri, line.range, serializeMarker(converted), metadata);
+        } else {
+            edit.replace(document.uri, line.range, serializeMarker(converted));
+        }
+        changed++;
+    }
+
+    return { changed, skipped };
+}
+
+/**
+ * Report the result, offering to turn on checkbox tasks so converted tasks stay visible
+ */
+async function reportConversion(style: MarkerStyle, changed: number, skipped: number): Promise<void> {
+    let message = `Converted ${changed} task${changed === 1 ? '' : 's'} to ${STYLE_NAMES[style]}.`;
+    if (skipped > 0) {
+        message += ` Skipped ${skipped} marker${skipped === 1 ? '' : 's'} with other text in front.`;
+    }
+
+    if (style === 'checkbox' && changed > 0 && !ConfigService.getInstance().getMarkerOptions().checkboxes) {
+        const choice = await vscode.window.showInformationMessage(
+            `${message} Checkbox tasks are turned off, so they will not show in the task views. Turn them on?`,
+            'Turn On'
+        );
+        if (choice === 'Turn On') {
+            await vscode.workspace.getConfiguration('calmdown').update(
+                'checkboxTasks',
+                true,
+                vscode.ConfigurationTarget.Workspace
+            );
+        }
+        return;
+    }
+
+    vscode.window.showInformationMessage(message);
+}
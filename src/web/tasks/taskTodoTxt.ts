@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { ConfigService } from '../common/configService';
+import { handleTaskError } from '../common/errorHandler';
+import { createNote } from '../fileManager';
+import { formatDateForTask, formatDateYYYYMMDD } from './dateFormatter';
+import { createTaskId, escapeTaskText, getCreatedDate, serializeMarker, setAttribute } from './taskMarker';
+import { appendToTasksSection, getDocumentTaskIds } from './taskNavigator';
+import { TodoTxtItem, formatTodoTxtLine, parseTodoTxtLine, todoTxtItemToMarker } from './todoTxt';
+
+/**
+ * Write every open and completed task in the journal to a todo.txt file.
+ * Rolled tasks are left out, since they live on as later tasks.
+ */
+export async function exportTodoTxt(scanner: TaskScanner): Promise<void> {
+    try {
+        const tasks = (await scanner.getAllTasks()).filter(task => task.status !== 'ROLL');
+        if (tasks.length === 0) {
+            vscode.window.showInformationMessage('No tasks found to export.');
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'todo.txt') : undefined,
+            filters: { 'todo.txt': ['txt'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = tasks.map(formatTodoTxtLine).join('\n') + '\n';
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Exported ${tasks.length} tasks to ${vscode.workspace.asRelativePath(target)}.`);
+    } catch (error) {
+        handleTaskError('Failed to export tasks to todo.txt',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Add the tasks from a todo.txt file to a note as task markers,
+ * skipping any that are already in the journal
+ */
+export async function importTodoTxt(scanner: TaskScanner): Promise<void> {
+    try {
+        const [source] = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'todo.txt': ['txt'], 'All files': ['*'] },
+            openLabel: 'Import'
+        }) ?? [];
+        if (!source) {
+            return;
+        }
+
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(source));
+        const items = content.split(/\r?\n/)
+            .map(parseTodoTxtLine)
+            .filter((item): item is TodoTxtItem => item !== null && item.text.length > 0);
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No tasks found in that file.');
+            return;
+        }
+
+        // Tasks count as the same when their text matches, ignoring case
+        const allTasks = await scanner.getAllTasks();
+        const known = new Set(allTasks.map(task => task.text.toLowerCase()));
+        const newItems = items.filter(item => {
+            const key = escapeTaskText(item.text).toLowerCase();
+            if (known.has(key)) {
+                return false;
+            }
+            known.add(key);
+            return true;
+        });
+        const skipped = items.length - newItems.length;
+        if (newItems.length === 0) {
+            vscode.window.showInformationMessage(`All ${items.length} tasks are already in the journal.`);
+            return;
+        }
+
+        const target = await pickTargetNote();
+        if (!target) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(target);
+
+        const dateFormat = ConfigService.getInstance().getTaskDateFormat();
+        const today = formatDateForTask(new Date(), dateFormat);
+        const taskIds = getDocumentTaskIds(document);
+        const lines = newItems.map(item => {
+            const marker = todoTxtItemToMarker(item, dateFormat);
+            if (!getCreatedDate(marker)) {
+                setAttribute(marker, 'created', today);
+            }
+            marker.id = createTaskId(taskIds);
+            taskIds.add(marker.id);
+            return serializeMarker(marker);
+        });
+
+        await appendToTasksSection(document, lines);
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage(
+            `Imported ${newItems.length} tasks` + (skipped > 0 ? `, skipped ${skipped} already in the journal.` : '.')
+        );
+    } catch (error) {
+        handleTaskError('Failed to import tasks from todo.txt',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Ask which note to import into: today's note, created if needed, or any other note
+ */
+async function pickTargetNote(): Promise<vscode.Uri | undefined> {
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: "Today's note", today: true },
+            { label: 'Choose a note...', today: false }
+        ],
+        { placeHolder: 'Add the imported tasks to' }
+    );
+    if (!choice) {
+        return undefined;
+    }
+    if (choice.today) {
+        return createNote(formatDateYYYYMMDD(new Date()), undefined, { reveal: false });
+    }
+
+    const journalFolder = await ConfigService.getInstance().getJournalFolderUri();
+    const [note] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: journalFolder ?? undefined,
+        filters: { 'Markdown': ['md'] },
+        openLabel: 'Add Tasks'
+    }) ?? [];
+    return note;
+}
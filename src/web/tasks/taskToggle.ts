@@ -0,0 +1,26 @@
+import { TaskStatus } from './taskMarker';
+
+/**
+ * What toggling a selection of lines does, see `toggleTaskState`:
+ * - `create`: the plain text lines become open tasks, and the tasks are left alone
+ * - `complete`: the open tasks are completed
+ * - `reopen`: every task is completed, so they are all reopened
+ * - `none`: there is nothing to toggle, such as only rolled tasks
+ */
+export type ToggleAction = 'create' | 'complete' | 'reopen' | 'none';
+
+/**
+ * Decide what toggling a selection does
+ * @param statuses the status of each selected line, or null for plain text
+ */
+export function getToggleAction(statuses: (TaskStatus | null)[]): ToggleAction {
+    if (statuses.includes(null)) {
+        return 'create';
+    }
+    // Rolled tasks live on in another note
+    const toggled = statuses.filter(status => status !== 'ROLL');
+    if (toggled.length === 0) {
+        return 'none';
+    }
+    return toggled.every(status => status === 'COMPLETE') ? 'reopen' : 'complete';
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { TaskScanner } from './taskScanner';
+import { handleTaskError } from '../common/errorHandler';
+import { getNoteFolderSegments, getTemplateContent } from '../fileManager';
+import { formatDateYYYYMMDD } from './dateFormatter';
+import { getNoteDate } from './taskModel';
+import { buildWeeklyReview, fillTemplate, getRelativeLink, getReviewWeek } from './weeklyReview';
+
+/**
+ * Build the review note for a week, as Week-NN.md in the folder of the
+ * week's Monday, and open it. Without a date, asks whether to review this
+ * week or last week. An existing review is only rebuilt when confirmed.
+ * @param dateString any day of the week (YYYY-MM-DD)
+ */
+export async function createWeeklyReview(
+    scanner: TaskScanner,
+    dateString?: string,
+    context?: vscode.ExtensionContext
+): Promise<void> {
+    try {
+        const today = new Date();
+        if (!dateString) {
+            const lastWeek = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 7);
+            const choice = await vscode.window.showQuickPick([
+                { label: 'This week', description: `Week ${getReviewWeek(formatDateYYYYMMDD(today)).week}`, date: today },
+                { label: 'Last week', description: `Week ${getReviewWeek(formatDateYYYYMMDD(lastWeek)).week}`, date: lastWeek }
+            ], { placeHolder: 'Which week do you want to review?' });
+            if (!choice) {
+                return;
+            }
+            dateString = formatDateYYYYMMDD(choice.date);
+        }
+
+        const noteUri = getWeeklyReviewUri(dateString);
+        if (!noteUri) {
+            vscode.window.showErrorMessage('No workspace folder is open. Please open a folder to save notes.');
+            return;
+        }
+
+        const week = getReviewWeek(dateString);
+        const weekName = `Week-${week.week.toString().padStart(2, '0')}`;
+        const folderUri = vscode.Uri.joinPath(noteUri, '..');
+
+        if (await fileExists(noteUri)) {
+            const choice = await vscode.window.showInformationMessage(
+                `The review for ${weekName} already exists.`, 'Open', 'Rebuild'
+            );
+            if (choice === 'Open') {
+                await vscode.window.showTextDocument(noteUri);
+            }
+            if (choice !== 'Rebuild') {
+                return;
+            }
+        }
+
+        // Link to the daily notes wherever they are, since a week can span two month folders
+        const noteLinks = new Map<string, string>();
+        for (const file of await scanner.findMarkdownFiles()) {
+            const noteDate = getNoteDate(file.fsPath);
+            if (noteDate && week.days.includes(noteDate)) {
+                noteLinks.set(noteDate, getRelativeLink(folderUri.path, file.path));
+            }
+        }
+
+        const values = buildWeeklyReview(week, await scanner.getAllTasks(), noteLinks, formatDateYYYYMMDD(today));
+        const content = fillTemplate(await getTemplateContent(context, 'weekly'), values);
+
+        await vscode.workspace.fs.createDirectory(folderUri);
+        await vscode.workspace.fs.writeFile(noteUri, new TextEncoder().encode(content));
+        await vscode.window.showTextDocument(noteUri);
+    } catch (error) {
+        handleTaskError('Failed to create the weekly review',
+                     error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Get where the review for a week lives, whether or not it exists yet
+ * @param dateString any day of the week (YYYY-MM-DD)
+ */
+export function getWeeklyReviewUri(dateString: string): vscode.Uri | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (!workspaceFolder) {
+        return undefined;
+    }
+    const week = getReviewWeek(dateString);
+    const weekName = `Week-${week.week.toString().padStart(2, '0')}`;
+    return vscode.Uri.joinPath(workspaceFolder, ...getNoteFolderSegments(week.start), `${weekName}.md`);
+}
+
+export async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
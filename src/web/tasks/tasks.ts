@@ -2,7 +2,7 @@
 import * as vscode from 'vscode';
 import { Task } from './taskModel';
 import { TaskScanner } from './taskScanner';
-import { rollTasksToToday } from './taskManager';
+import { navigateToTask, rollTasksToToday } from './taskManager';
 
 /**
  * TasksWebview manages the webview for displaying and interacting with tasks
@@ -63,10 +63,10 @@ export class TasksWebview {
                     await this.sendTasksToWebview();
                     break;
                 case 'navigateToTask':
-                    await this.taskScanner.navigateToTask(message.task);
+                    await navigateToTask(message.task);
                     break;
                 case 'rollTasksToToday':
-                    await rollTasksToToday();
+                    await rollTasksToToday(this.taskScanner);
                     await this.sendTasksToWebview(); // Refresh tasks after rolling
                     break;
             }
@@ -241,7 +241,7 @@ export function createWebviewScript(): string {
             taskElement.querySelector('.task-difficulty').textContent = task.difficulty.toString();
             
             // Format date
-            const date = \`\${task.dueDate.substring(0, 2)}-\${task.dueDate.substring(2, 4)}-\${task.dueDate.substring(4, 6)}\`;
+            const date = task.dueDate || '';
             taskElement.querySelector('.task-date').textContent = date;
             
             // Get filename from path
@@ -285,7 +285,9 @@ export function createWebviewScript(): string {
                 case 'difficulty':
                     return b.difficulty - a.difficulty;
                 case 'date':
-                    return a.dueDate.localeCompare(b.dueDate);
+                    return (a.dueDate || '9999-99-99').localeCompare(b.dueDate || '9999-99-99');
+                case 'created':
+                    return (b.createdDate || '').localeCompare(a.createdDate || '');
                 default:
                     return 0;
             }
@@ -0,0 +1,130 @@
+import { Task } from './taskModel';
+import { TaskDateFormat, convertTaskDate } from './dateFormatter';
+import { TaskMarker, escapeTaskText, setAttribute } from './taskMarker';
+
+/**
+ * Reading and writing tasks in the todo.txt format (http://todotxt.org):
+ *
+ *     (A) 2025-03-01 Call plumber +house @phone due:2025-03-04
+ *     x 2025-03-05 2025-03-01 Call plumber +house @phone due:2025-03-04 pri:A
+ *
+ * Priorities map from the highest down: 3 and above is (A), 2 is (B) and 1,
+ * the default, has no letter. Reading, (A) is 3, (B) is 2 and any other
+ * letter is 1. `+project` and `@context` tokens are part of the text in both
+ * formats, so they carry across as they are.
+ */
+export interface TodoTxtItem {
+    done: boolean;
+    priority: number;
+    createdDate?: string;    // YYYY-MM-DD
+    completedDate?: string;  // YYYY-MM-DD
+    dueDate?: string;        // YYYY-MM-DD
+    text: string;
+}
+
+const DATE = '\\d{4}-\\d{2}-\\d{2}';
+const DATE_REGEX = new RegExp(`^${DATE}$`);
+const TODO_TXT_REGEX = new RegExp(`^(x\\s+)?(?:\\(([A-Z])\\)\\s+)?(?:(${DATE})\\s+)?(?:(${DATE})\\s+)?(.*)$`);
+
+/**
+ * Write a task as a todo.txt line
+ */
+export function formatTodoTxtLine(task: Task): string {
+    const letter = task.priority >= 3 ? 'A' : task.priority === 2 ? 'B' : '';
+    const parts: string[] = [];
+
+    if (task.status === 'COMPLETE') {
+        parts.push('x');
+        // A creation date is only allowed after a completion date
+        if (task.completedDate) {
+            parts.push(task.completedDate);
+            if (task.createdDate) {
+                parts.push(task.createdDate);
+            }
+        }
+    } else {
+        if (letter) {
+            parts.push(`(${letter})`);
+        }
+        if (task.createdDate) {
+            parts.push(task.createdDate);
+        }
+    }
+
+    parts.push(task.text);
+    if (task.dueDate) {
+        parts.push(`due:${task.dueDate}`);
+    }
+    // Completed tasks keep their priority as a tag, as todo.txt clients do
+    if (task.status === 'COMPLETE' && letter) {
+        parts.push(`pri:${letter}`);
+    }
+
+    return parts.filter(part => part).join(' ');
+}
+
+/**
+ * Parse a todo.txt line, returning null for blank lines
+ */
+export function parseTodoTxtLine(line: string): TodoTxtItem | null {
+    const match = TODO_TXT_REGEX.exec(line.trim());
+    if (!match || !line.trim()) {
+        return null;
+    }
+
+    const done = !!match[1];
+    let priority = match[2];
+    // A completed task has its completion date first; an open one only has a creation date
+    const completedDate = done ? match[3] : undefined;
+    const createdDate = done ? match[4] : match[3];
+    const rest = !done && match[4] ? `${match[4]} ${match[5]}` : match[5];
+
+    let dueDate: string | undefined;
+    const words: string[] = [];
+    for (const word of rest.split(/\s+/)) {
+        const [key, value] = word.split(/:(.*)/);
+        if (key === 'due' && DATE_REGEX.test(value)) {
+            dueDate = value;
+        } else if (key === 'pri' && /^[A-Z]$/.test(value)) {
+            priority = priority || value;
+        } else if (word) {
+            words.push(word);
+        }
+    }
+
+    return {
+        done,
+        priority: priority === 'A' ? 3 : priority === 'B' ? 2 : 1,
+        createdDate,
+        completedDate,
+        dueDate,
+        text: words.join(' ')
+    };
+}
+
+/**
+ * Build a task marker for an imported todo.txt item. Text that would be
+ * read as marker syntax is escaped, and dates that don't exist, such as
+ * 2025-02-30, are left out.
+ */
+export function todoTxtItemToMarker(item: TodoTxtItem, dateFormat: TaskDateFormat): TaskMarker {
+    const convert = (date: string | undefined) => {
+        try {
+            return date ? convertTaskDate(date, dateFormat) : undefined;
+        } catch {
+            return undefined;
+        }
+    };
+    const marker: TaskMarker = {
+        status: item.done ? 'COMPLETE' : 'TODO',
+        priority: item.priority,
+        difficulty: 1,
+        due: convert(item.dueDate) || '',
+        attributes: [],
+        text: escapeTaskText(item.text),
+        prefix: ''
+    };
+    setAttribute(marker, 'created', convert(item.createdDate));
+    setAttribute(marker, 'done', convert(item.completedDate));
+    return marker;
+}
@@ -2,10 +2,12 @@ interface Task {
     text: string;
     priority: number;
     difficulty: number;
-    dueDate: string;  // Changed from creationDate to dueDate
+    dueDate?: string;        // YYYY-MM-DD
+    createdDate?: string;    // YYYY-MM-DD
+    completedDate?: string;  // YYYY-MM-DD
     filePath: string;
     line: number;
-    status: 'TODO' | 'COMPLETE';
+    status: 'TODO' | 'COMPLETE' | 'ROLL';
 }
 
 // VS Code webview API
@@ -139,9 +141,8 @@ function renderTasks(): void {
         taskDifficultyEl.textContent = task.difficulty.toString();
         
         // Format date
-        const date = `${task.dueDate.substring(0, 2)}-${task.dueDate.substring(2, 4)}-${task.dueDate.substring(4, 6)}`;
         const taskDateEl = taskElement.querySelector('.task-date') as HTMLElement;
-        taskDateEl.textContent = date;
+        taskDateEl.textContent = task.dueDate || '';
         
         // Get filename from path
         const pathParts = task.filePath.split(/[\/\\]/);
@@ -185,13 +186,26 @@ function filterAndSortTasks(): Task[] {
             case 'difficulty':
                 return b.difficulty - a.difficulty;
             case 'date':
-                return a.dueDate.localeCompare(b.dueDate);
+            case 'due':
+                return compareDates(a.dueDate, b.dueDate);
+            case 'created':
+                return compareDates(b.createdDate, a.createdDate); // Newest first
+            case 'completed':
+                return compareDates(b.completedDate, a.completedDate); // Newest first
             default:
                 return 0;
         }
     });
 }
 
+// Compare YYYY-MM-DD dates, placing missing dates last
+function compareDates(a: string | undefined, b: string | undefined): number {
+    if (!a || !b) {
+        return (a ? 0 : 1) - (b ? 0 : 1);
+    }
+    return a.localeCompare(b);
+}
+
 // Filter tasks based on search input
 function filterTasks(): void {
     saveState();
@@ -0,0 +1,137 @@
+import { Task, getNoteDate } from './taskModel';
+import { formatDateShort, formatDateYYYYMMDD, getISOWeek, parseNoteDate } from './dateFormatter';
+import { getTaskHistory } from './taskHistory';
+
+/**
+ * Building the weekly review note.
+ *
+ * A review covers one ISO week, Monday to Sunday. It is written from the
+ * `weekly.md` template, which can use these placeholders:
+ *
+ * - `{{WEEK}}` the week number, e.g. 10
+ * - `{{YEAR}}` the year the week belongs to
+ * - `{{DATE}}`, `{{START}}` the Monday of the week (YYYY-MM-DD)
+ * - `{{END}}` the Sunday of the week (YYYY-MM-DD)
+ * - `{{DAILY_NOTES}}` links to the week's daily notes
+ * - `{{COMPLETED}}` tasks completed in the week, grouped by day
+ * - `{{ROLLED}}` tasks rolled over in the week, with how often they have been rolled
+ * - `{{OVERDUE}}` open tasks due by the end of the week that are now overdue
+ *
+ * Tasks are listed as plain text, so the review doesn't add tasks of its own.
+ */
+
+/**
+ * An ISO week, with its days as YYYY-MM-DD
+ */
+export interface ReviewWeek {
+    week: number;
+    year: number;
+    start: string;
+    end: string;
+    days: string[];
+}
+
+/**
+ * Get the week a date (YYYY-MM-DD) falls in
+ */
+export function getReviewWeek(dateString: string): ReviewWeek {
+    const date = parseNoteDate(dateString);
+    // Days run Monday (0) to Sunday (6)
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7);
+    const days: string[] = [];
+    for (let i = 0; i < 7; i++) {
+        days.push(formatDateYYYYMMDD(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + i)));
+    }
+    // The week belongs to the year its Thursday is in
+    const thursday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3);
+    return { week: getISOWeek(monday), year: thursday.getFullYear(), start: days[0], end: days[6], days };
+}
+
+/**
+ * Build the placeholder values for a week's review
+ * @param tasks every task in the journal
+ * @param noteLinks link to the daily note for each day that has one
+ * @param today today's date (YYYY-MM-DD), for finding overdue tasks
+ */
+export function buildWeeklyReview(
+    week: ReviewWeek,
+    tasks: Task[],
+    noteLinks: Map<string, string>,
+    today: string
+): Record<string, string> {
+    const inWeek = (date: string | null | undefined) => !!date && date >= week.start && date <= week.end;
+
+    const dailyNotes = week.days
+        .filter(day => noteLinks.has(day))
+        .map(day => `- [${formatDay(day)}](${noteLinks.get(day)})`);
+
+    // Tasks without a completion date count on the day of their note
+    const completed: string[] = [];
+    for (const day of week.days) {
+        const done = tasks.filter(task =>
+            task.status === 'COMPLETE' && (task.completedDate ?? getNoteDate(task.filePath)) === day
+        );
+        if (done.length > 0) {
+            completed.push(`### ${formatDay(day)}`, ...done.map(task => `- ${task.text}`), '');
+        }
+    }
+
+    // Report each rollover chain once, however many times it was rolled this week
+    const rolled: string[] = [];
+    const seen = new Set<Task>();
+    for (const task of tasks) {
+        if (task.status !== 'ROLL' || !inWeek(getNoteDate(task.filePath)) || seen.has(task)) {
+            continue;
+        }
+        const history = getTaskHistory(task, tasks);
+        history.forEach(occurrence => seen.add(occurrence));
+        const count = history.filter(occurrence => occurrence.status === 'ROLL').length;
+        rolled.push(`- ${task.text} (rolled ${count} time${count === 1 ? '' : 's'})`);
+    }
+
+    const overdue = tasks
+        .filter(task => task.status === 'TODO' && task.dueDate && task.dueDate < today && task.dueDate <= week.end)
+        .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!))
+        .map(task => `- ${task.text} (due ${formatDateShort(parseNoteDate(task.dueDate!))})`);
+
+    return {
+        WEEK: week.week.toString().padStart(2, '0'),
+        YEAR: week.year.toString(),
+        DATE: week.start,
+        START: week.start,
+        END: week.end,
+        DAILY_NOTES: listOrNone(dailyNotes),
+        COMPLETED: listOrNone(completed).trimEnd(),
+        ROLLED: listOrNone(rolled),
+        OVERDUE: listOrNone(overdue)
+    };
+}
+
+/**
+ * Replace `{{NAME}}` placeholders in a template. Unknown placeholders are left as they are.
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{([A-Z_]+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Get a relative link from a folder to a file, both given as URI paths
+ */
+export function getRelativeLink(fromFolder: string, toFile: string): string {
+    const from = fromFolder.split('/').filter(segment => segment);
+    const to = toFile.split('/').filter(segment => segment);
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+        common++;
+    }
+    const segments = [...from.slice(common).map(() => '..'), ...to.slice(common)];
+    return segments.map(encodeURIComponent).join('/');
+}
+
+function formatDay(day: string): string {
+    return parseNoteDate(day).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+function listOrNone(lines: string[]): string {
+    return lines.length > 0 ? lines.join('\n') : '- None';
+}
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import {
+	convertTaskDate,
+	formatDateForTask,
+	formatDateYYYYMMDD,
+	getDaysUntil,
+	getDueDateSuggestions,
+	getRelativeDateDescription,
+	parseNaturalDate,
+	parseTaskDate
+} from '../../tasks/dateFormatter';
+
+suite('Date Formatter', () => {
+	test('counts days until a task date', () => {
+		const today = new Date(2025, 2, 6, 18, 30);
+		assert.strictEqual(getDaysUntil('250306', today), 0);
+		assert.strictEqual(getDaysUntil('2025-03-03', today), -3);
+		// Across the start of daylight saving time in many zones
+		assert.strictEqual(getDaysUntil('2025-04-06', today), 31);
+	});
+
+	test('describes due dates relative to today', () => {
+		const today = new Date(2025, 2, 6);
+		assert.strictEqual(getRelativeDateDescription('250307', today), 'Due Tomorrow');
+		assert.strictEqual(getRelativeDateDescription('250303', today), '3 days overdue');
+		assert.strictEqual(getRelativeDateDescription('250320', today), 'Due in 2 weeks');
+	});
+
+	test('keeps four-digit years outside 2000-2099', () => {
+		assert.strictEqual(formatDateForTask(new Date(2025, 2, 14)), '250314');
+		assert.strictEqual(formatDateForTask(new Date(1998, 2, 14)), '1998-03-14');
+		assert.strictEqual(formatDateForTask(new Date(2101, 0, 2), 'YYMMDD'), '2101-01-02');
+		assert.strictEqual(convertTaskDate('1998-03-14', 'YYMMDD'), '1998-03-14');
+		assert.strictEqual(convertTaskDate('2099-12-31', 'YYMMDD'), '991231');
+	});
+
+	test('rejects task dates that do not exist', () => {
+		assert.throws(() => parseTaskDate('250431'));
+		assert.throws(() => parseTaskDate('2025-02-31'));
+		assert.throws(() => parseTaskDate('251301'));
+		assert.throws(() => convertTaskDate('250431', 'YYYY-MM-DD'));
+		assert.strictEqual(formatDateYYYYMMDD(parseTaskDate('240229')), '2024-02-29');
+	});
+
+	test('suggests due dates', () => {
+		// A Monday at the end of March
+		const suggestions = getDueDateSuggestions(new Date(2025, 2, 31, 9));
+		assert.deepStrictEqual(
+			suggestions.map(({ label, date }) => `${label}: ${formatDateYYYYMMDD(date)}`),
+			[
+				'today: 2025-03-31',
+				'tomorrow: 2025-04-01',
+				'next Monday: 2025-04-07',
+				'in a week: 2025-04-07',
+				'end of month: 2025-03-31'
+			]
+		);
+	});
+
+	test('reads dates written in words', () => {
+		// A Wednesday
+		const reference = new Date(2025, 2, 5);
+		const read = (text: string) => {
+			const date = parseNaturalDate(text, reference);
+			return date ? formatDateYYYYMMDD(date) : null;
+		};
+		assert.strictEqual(read('Tomorrow'), '2025-03-06');
+		assert.strictEqual(read('in 3 days'), '2025-03-08');
+		assert.strictEqual(read('in-a-week'), '2025-03-12');
+		assert.strictEqual(read('in 1 month'), '2025-04-05');
+		assert.strictEqual(read('fri'), '2025-03-07');
+		assert.strictEqual(read('next wednesday'), '2025-03-12');
+		assert.strictEqual(read('this monday'), '2025-03-03');
+		assert.strictEqual(read('next week'), '2025-03-10');
+		assert.strictEqual(read('end of week'), '2025-03-09');
+		assert.strictEqual(read('eom'), '2025-03-31');
+		assert.strictEqual(read('14 March 2026'), '2026-03-14');
+		assert.strictEqual(read('Mar 14, 2026'), '2026-03-14');
+		assert.strictEqual(read('1 March'), '2026-03-01');
+		assert.strictEqual(read('2025/04/01'), '2025-04-01');
+		assert.strictEqual(read('01.04.2025'), '2025-04-01');
+		assert.strictEqual(read('31 February 2025'), null);
+		assert.strictEqual(read('someday'), null);
+	});
+});
@@ -0,0 +1,10 @@
+import { Task, parseTask } from '../../tasks/taskModel';
+
+/**
+ * Parse the lines of a daily note into tasks, as the scanner would
+ */
+export function note(date: string, lines: string[]): Task[] {
+	return lines
+		.map((line, index) => parseTask(line, `/Journal/${date}.md`, index))
+		.filter((task): task is Task => task !== null);
+}
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { buildNotePreview, buildTaskCard } from '../../tasks/hoverCards';
+import { note } from './fixtures';
+
+suite('Hover Cards', () => {
+	const today = new Date(2025, 2, 10);
+
+	test('describes an open task', () => {
+		const [task] = note('2025-03-10', ['-=TODO 3 2 250312 every:week blocked-by:parts1=- Fit parts']);
+		const card = buildTaskCard(task, [task], today);
+		assert.deepStrictEqual(card.lines, [
+			'**Open** · Priority 3 · Difficulty 2',
+			'Due in 2 days (March 12, 2025)',
+			'Repeats every week',
+			'Blocked by `^parts1`'
+		]);
+		assert.strictEqual(card.originDate, undefined);
+		assert.strictEqual(card.history, undefined);
+	});
+
+	test('follows a rolled task back to where it was written', () => {
+		const tasks = [
+			...note('2025-03-03', ['-=ROLL 1 1 250303 to:2025-03-04=- Call plumber']),
+			...note('2025-03-04', ['-=ROLL 1 1 250303 from:2025-03-03 to:2025-03-10=- Call plumber']),
+			...note('2025-03-10', ['-=COMPLETE 1 1 250303 done:250312 from:2025-03-04=- Call plumber'])
+		];
+		const card = buildTaskCard(tasks[2], tasks, today);
+		assert.strictEqual(card.lines[1], 'Was due March 3, 2025');
+		assert.strictEqual(card.originDate, '2025-03-03');
+		assert.strictEqual(card.history, 'created 3 Mar, rolled 2 times, completed 12 Mar');
+	});
+
+	test('previews the start of a note and its open tasks', () => {
+		const lines = [
+			'# Monday',
+			'',
+			'Quiet start to the week.',
+			'-=TODO 1 1=- Call plumber',
+			'-=COMPLETE 1 1=- Water plants',
+			...Array.from({ length: 11 }, (_, index) => `-=TODO 1 1=- Task ${index + 1}`),
+			...Array.from({ length: 7 }, (_, index) => `Line ${index + 1}`)
+		];
+		const preview = buildNotePreview('2025-03-10', lines, '/Journal/2025-03-10.md');
+		assert.strictEqual(preview.title, 'Monday');
+		assert.deepStrictEqual(preview.excerpt, ['Quiet start to the week.', 'Line 1', 'Line 2', 'Line 3', 'Line 4', 'Line 5']);
+		assert.strictEqual(preview.openTasks.length, 10);
+		assert.strictEqual(preview.openTasks[0], 'Call plumber');
+		assert.strictEqual(preview.moreTasks, 2);
+	});
+
+	test('titles a note without a heading by its date', () => {
+		const preview = buildNotePreview('2025-03-10', ['-=TODO 1 1=-'], '/Journal/2025-03-10.md');
+		assert.strictEqual(preview.title, 'March 10, 2025');
+		assert.deepStrictEqual(preview.excerpt, []);
+		assert.deepStrictEqual(preview.openTasks, ['(No description)']);
+	});
+});
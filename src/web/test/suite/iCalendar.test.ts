@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { parseTask } from '../../tasks/taskModel';
+import { buildICalendar, formatAgendaLine, getEventDays, parseICalendarEvents } from '../../tasks/iCalendar';
+
+suite('iCalendar', () => {
+	test('exports due and completed tasks and notes', () => {
+		const tasks = [
+			parseTask('-=TODO 3 1 250304=- Call plumber, today #house ^k3x9q2', '/Journal/2025-03-01.md', 0)!,
+			parseTask('-=COMPLETE 1 1 250304 done:250305=- Fix tap', '/Journal/2025-03-01.md', 1)!,
+			parseTask('-=TODO 1 1=- Someday', '/Journal/2025-03-01.md', 2)!
+		];
+		const ics = buildICalendar(tasks, [{ date: '2025-03-01', title: 'Daily Notes: 2025-03-01' }], new Date(Date.UTC(2025, 2, 6, 12)));
+		const lines = ics.split('\r\n');
+
+		assert.ok(lines.includes('DTSTART;VALUE=DATE:20250301'));
+		assert.ok(lines.includes('DTEND;VALUE=DATE:20250302'));
+		assert.ok(lines.includes('UID:task-k3x9q2@calmdown'));
+		assert.ok(lines.includes('SUMMARY:Call plumber\\, today #house'));
+		assert.ok(lines.includes('DUE;VALUE=DATE:20250304'));
+		assert.ok(lines.includes('PRIORITY:1'));
+		assert.ok(lines.includes('STATUS:COMPLETED'));
+		// The start of the day it was completed, in UTC
+		assert.ok(lines.includes(`COMPLETED:${new Date(2025, 2, 5).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`));
+		assert.ok(lines.includes('DTSTAMP:20250306T120000Z'));
+		assert.strictEqual(lines.filter(line => line === 'BEGIN:VTODO').length, 2);
+	});
+
+	test('folds long lines by UTF-8 length without splitting characters', () => {
+		const text = 'Buy 🍎 and 🍐 for the café '.repeat(4).trim();
+		const task = parseTask(`-=TODO 1 1 250304=- ${text}`, '/Journal/2025-03-01.md', 0)!;
+		const lines = buildICalendar([task], [], new Date(Date.UTC(2025, 2, 6, 12))).split('\r\n');
+		const start = lines.findIndex(line => line.startsWith('SUMMARY:'));
+		let end = start + 1;
+		while (lines[end].startsWith(' ')) {
+			end++;
+		}
+		const summary = lines.slice(start, end);
+
+		assert.ok(summary.length > 1);
+		summary.forEach(line => {
+			assert.ok(new TextEncoder().encode(line).length <= 75, line);
+			// No emoji cut in half
+			assert.ok(!/[\uD800-\uDBFF]$/.test(line), line);
+		});
+		assert.strictEqual(summary.map((line, index) => index === 0 ? line : line.substring(1)).join(''), `SUMMARY:${text}`);
+	});
+
+	test('reads events and lays them out by day', () => {
+		const events = parseICalendarEvents([
+			'BEGIN:VCALENDAR',
+			'BEGIN:VEVENT',
+			'SUMMARY:Standup\\, daily',
+			'LOCATION:Room 4',
+			'DTSTART;TZID=Europe/London:20250303T090000',
+			'DTEND;TZID=Europe/London:20250303T091500',
+			'END:VEVENT',
+			'BEGIN:VEVENT',
+			'SUMMARY:Confer',
+			' ence',
+			'DTSTART;VALUE=DATE:20250304',
+			'DTEND;VALUE=DATE:20250306',
+			'END:VEVENT',
+			'END:VCALENDAR'
+		].join('\r\n'));
+
+		assert.strictEqual(events.length, 2);
+		assert.strictEqual(formatAgendaLine(events[0]), '- 09:00-09:15 Standup, daily (Room 4)');
+		assert.deepStrictEqual(getEventDays(events[0]), ['2025-03-03']);
+		assert.strictEqual(formatAgendaLine(events[1]), '- All day: Conference');
+		assert.deepStrictEqual(getEventDays(events[1]), ['2025-03-04', '2025-03-05']);
+	});
+
+	test('keeps marker syntax in events as text', () => {
+		const start = new Date(2025, 2, 3, 9, 0);
+		assert.strictEqual(
+			formatAgendaLine({ summary: '-=TODO 1 1=- Review', start, allDay: false, location: 'Room -=4' }),
+			'- 09:00 -\\=TODO 1 1=\\- Review (Room -\\=4)'
+		);
+		assert.strictEqual(formatAgendaLine({ summary: 'Planning ^q2', start, allDay: false }), '- 09:00 Planning \\^q2');
+	});
+});
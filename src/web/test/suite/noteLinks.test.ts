@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { findNoteLinks, getNoteLinkText, getWeekMonday, getWeeklyReviewMonday } from '../../tasks/noteLinks';
+
+suite('Note Links', () => {
+	test('finds day and week links, skipping days that do not exist', () => {
+		const line = 'See [[2025-03-14]], [[2025-02-30]] and [[Week-11]].';
+		const links = findNoteLinks(line, new Date(2025, 5, 1));
+		assert.deepStrictEqual(links.map(link => [link.kind, link.date]), [['day', '2025-03-14'], ['week', '2025-03-10']]);
+		assert.strictEqual(line.substring(links[1].range.start, links[1].range.end), '[[Week-11]]');
+		assert.strictEqual(line.substring(links[0].targetRange.start, links[0].targetRange.end), '2025-03-14');
+	});
+
+	test('resolves ISO weeks across the turn of the year', () => {
+		assert.strictEqual(getWeekMonday(2025, 1), '2024-12-30');
+		assert.strictEqual(getWeekMonday(2020, 53), '2020-12-28');
+		assert.strictEqual(getWeekMonday(2025, 53), null);
+		assert.strictEqual(getNoteLinkText('week', '2024-12-30'), 'Week-01');
+
+		assert.strictEqual(getWeeklyReviewMonday('/ws/Journal/2024/12-December/Week-01/Week-01.md'), '2024-12-30');
+		assert.strictEqual(getWeeklyReviewMonday('/ws/Journal/2025/03-March/Week-11/Week-11.md'), '2025-03-10');
+		assert.strictEqual(getWeeklyReviewMonday('/ws/Journal/2025/03-March/Week-11/2025-03-14.md'), null);
+	});
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { parseQuickCapture } from '../../tasks/quickCapture';
+import { serializeMarker } from '../../tasks/taskMarker';
+
+suite('Quick Capture', () => {
+	// Thursday 10 April 2025
+	const today = new Date(2025, 3, 10);
+
+	test('reads priority, difficulty and due date around the text', () => {
+		const { marker, errors } = parseQuickCapture('Call plumber #house !! due:next-friday d:3', today, 'YYMMDD');
+		assert.deepStrictEqual(errors, []);
+		assert.strictEqual(serializeMarker(marker!), '-=TODO 2 3 250411 created:250410=- Call plumber #house');
+
+		const plain = parseQuickCapture('  Read @anna report  ', today, 'YYYY-MM-DD').marker!;
+		assert.strictEqual(serializeMarker(plain), '-=TODO 1 1 created:2025-04-10=- Read @anna report');
+		assert.strictEqual(parseQuickCapture('Pay rent p:3 due:250430', today, 'YYMMDD').marker!.priority, 3);
+	});
+
+	test('reports what it cannot read', () => {
+		assert.deepStrictEqual(parseQuickCapture('!!! due:someday', today, 'YYMMDD').errors, [
+			'Unknown due date "someday", try due:tomorrow or due:250410',
+			'Enter the task text'
+		]);
+		assert.deepStrictEqual(parseQuickCapture('Pay rent p:5', today, 'YYMMDD').errors, ['priority must be 1, 2 or 3, got "5"']);
+		assert.deepStrictEqual(parseQuickCapture('Pay rent due:250431', today, 'YYMMDD').errors, ['Due date "250431" does not exist']);
+	});
+
+	test('keeps marker syntax in the text as text', () => {
+		const { marker } = parseQuickCapture('Fix -=TODO=- parsing ^later', today, 'YYMMDD');
+		assert.strictEqual(serializeMarker(marker!), '-=TODO 1 1 created:250410=- Fix -\\=TODO=\\- parsing \\^later');
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { getUnblockedTasks, markBlockedTasks, resolveTaskReference } from '../../tasks/taskDependencies';
+import { note } from './fixtures';
+
+suite('Task Dependencies', () => {
+	const build = () => [
+		...note('2025-03-03', [
+			'-=ROLL 1 1 250303 to:2025-03-04=- Order parts ^parts1',
+			'-=TODO 1 1 250305 blocked-by:parts1=- Fit parts ^fit001',
+			'-=TODO 1 1 250305 blocked-by:parts1,quote1=- Paint ^paint1',
+			'-=TODO 1 1 250305 blocked-by:gone00=- Orphan'
+		]),
+		...note('2025-03-04', [
+			'-=TODO 1 1 250304 from:2025-03-03=- Order parts ^parts2',
+			'-=COMPLETE 1 1 250303 done:250304=- Get quote ^quote1'
+		])
+	];
+
+	test('follows rolled blockers to their latest occurrence', () => {
+		const tasks = build();
+		assert.strictEqual(resolveTaskReference('parts1', tasks), tasks[4]);
+		assert.strictEqual(resolveTaskReference('gone00', tasks), undefined);
+	});
+
+	test('marks tasks with open blockers', () => {
+		const tasks = build();
+		markBlockedTasks(tasks);
+		assert.deepStrictEqual(tasks.map(task => task.blocked), [false, true, true, false, false, false]);
+	});
+
+	test('lists the tasks a completed task unblocks', () => {
+		const tasks = build();
+		assert.deepStrictEqual(getUnblockedTasks([tasks[4]], tasks).map(task => task.text), ['Fit parts', 'Paint']);
+	});
+
+	test('lists the tasks unblocked by completing their blockers together', () => {
+		const tasks = note('2025-03-05', [
+			'-=TODO 1 1 250305=- Sand walls ^sand01',
+			'-=TODO 1 1 250305=- Tape edges ^tape01',
+			'-=TODO 1 1 250306 blocked-by:sand01,tape01=- Paint walls'
+		]);
+		assert.deepStrictEqual(getUnblockedTasks([tasks[0]], tasks), []);
+		assert.deepStrictEqual(getUnblockedTasks([tasks[0], tasks[1]], tasks).map(task => task.text), ['Paint walls']);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { changeTaskPriority, postponeTask } from '../../tasks/taskEditing';
+
+suite('Task Editing', () => {
+	async function openNote(lines: string[]): Promise<vscode.TextEditor> {
+		const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+		return vscode.window.showTextDocument(document);
+	}
+
+	teardown(() => vscode.commands.executeCommand('workbench.action.closeAllEditors'));
+
+	test('postpones only the open tasks in a selection', async () => {
+		const editor = await openNote([
+			'-=TODO 1 1 250328=- Call plumber',
+			'-=COMPLETE 1 1 250328=- Water plants',
+			'-=TODO 1 1 250331=- Pay rent'
+		]);
+		editor.selection = new vscode.Selection(0, 0, 2, 5);
+		await postponeTask(1);
+		assert.deepStrictEqual(editor.document.getText().split('\n'), [
+			'-=TODO 1 1 250329=- Call plumber',
+			'-=COMPLETE 1 1 250328=- Water plants',
+			'-=TODO 1 1 250401=- Pay rent'
+		]);
+	});
+
+	test('changes the priority of open and completed tasks, in one undo step', async () => {
+		const editor = await openNote([
+			'-=TODO 1 1=- Call plumber',
+			'-=COMPLETE 2 1=- Water plants',
+			'-=TODO 3 1=- Pay rent'
+		]);
+		editor.selections = [0, 1, 2].map(line => new vscode.Selection(line, 0, line, 0));
+		await changeTaskPriority(1);
+		assert.deepStrictEqual(editor.document.getText().split('\n'), [
+			'-=TODO 2 1=- Call plumber',
+			'-=COMPLETE 3 1=- Water plants',
+			'-=TODO 3 1=- Pay rent'
+		]);
+
+		await vscode.commands.executeCommand('undo');
+		assert.strictEqual(editor.document.lineAt(0).text, '-=TODO 1 1=- Call plumber');
+		assert.strictEqual(editor.document.lineAt(1).text, '-=COMPLETE 2 1=- Water plants');
+	});
+});
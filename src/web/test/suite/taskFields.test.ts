@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { postponeDueDate, readDueDate, stepLevel } from '../../tasks/taskFields';
+
+suite('Task Fields', () => {
+	const reference = new Date(2025, 2, 10);
+
+	test('steps levels within 1 to 3', () => {
+		assert.strictEqual(stepLevel(2, 1), 3);
+		assert.strictEqual(stepLevel(3, 1), 3);
+		assert.strictEqual(stepLevel(1, -1), 1);
+		assert.strictEqual(stepLevel(2, -1), 1);
+	});
+
+	test('postpones from the due date, across months', () => {
+		assert.strictEqual(postponeDueDate('250328', 7, reference, 'YYMMDD'), '250404');
+		assert.strictEqual(postponeDueDate('2025-03-31', 1, reference, 'YYYY-MM-DD'), '2025-04-01');
+		assert.strictEqual(postponeDueDate('tomorrow', 1, reference, 'YYMMDD'), '250312');
+	});
+
+	test('postpones tasks without a readable due date from today', () => {
+		assert.strictEqual(postponeDueDate('', 1, reference, 'YYMMDD', reference), '250311');
+		assert.strictEqual(postponeDueDate('250231', 7, reference, 'YYMMDD', reference), '250317');
+		assert.strictEqual(readDueDate('250231', reference), null);
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { describeTaskHistory, getTaskHistory } from '../../tasks/taskHistory';
+import { note } from './fixtures';
+
+suite('Task History', () => {
+	const tasks = [
+		...note('2025-03-03', ['-=ROLL 1 1 250303 to:2025-03-04=- Call plumber']),
+		...note('2025-03-04', ['-=ROLL 1 1 250303 from:2025-03-03 to:2025-03-10=- Call plumber']),
+		...note('2025-03-10', ['-=COMPLETE 1 1 250312 from:2025-03-04=- Call plumber']),
+		...note('2025-03-10', ['-=TODO 1 1 250310=- Call plumber again'])
+	];
+
+	test('follows the chain from any occurrence', () => {
+		for (const task of tasks.slice(0, 3)) {
+			const history = getTaskHistory(task, tasks);
+			assert.deepStrictEqual(history, tasks.slice(0, 3));
+		}
+	});
+
+	test('describes the chain', () => {
+		const history = getTaskHistory(tasks[1], tasks);
+		assert.strictEqual(describeTaskHistory(history), 'created 3 Mar, rolled 2 times, completed 12 Mar');
+	});
+
+	test('leaves unrelated tasks alone', () => {
+		assert.deepStrictEqual(getTaskHistory(tasks[3], tasks), [tasks[3]]);
+	});
+});
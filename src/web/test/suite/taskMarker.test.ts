@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import {
+	convertMarkerStyle,
+	escapeTaskText,
+	getCompletedDate,
+	getCreatedDate,
+	getDueDate,
+	parseMarker,
+	parseTextTokens,
+	serializeMarker
+} from '../../tasks/taskMarker';
+
+suite('Task Marker Grammar', () => {
+	test('parses a canonical TODO marker', () => {
+		const marker = parseMarker('-=TODO 3 2 250414=- Write report');
+		assert.ok(marker);
+		assert.strictEqual(marker.status, 'TODO');
+		assert.strictEqual(marker.priority, 3);
+		assert.strictEqual(marker.difficulty, 2);
+		assert.strictEqual(marker.due, '250414');
+		assert.strictEqual(marker.text, 'Write report');
+		assert.deepStrictEqual(marker.range, { start: 0, end: 19 });
+		assert.deepStrictEqual(marker.errors, []);
+	});
+
+	test('parses ROLL markers', () => {
+		const marker = parseMarker('-=ROLL 1 1 250101=- Moved');
+		assert.strictEqual(marker?.status, 'ROLL');
+	});
+
+	test('tolerates odd spacing', () => {
+		const marker = parseMarker('  -= TODO  2   1 250414 =-   Spaced out');
+		assert.ok(marker);
+		assert.deepStrictEqual(marker.errors, []);
+		assert.strictEqual(marker.prefix, '  ');
+		assert.strictEqual(marker.priority, 2);
+		assert.strictEqual(marker.text, 'Spaced out');
+	});
+
+	test('reports missing and invalid fields', () => {
+		assert.strictEqual(parseMarker('-=TODO 2=-')?.errors.length, 1);
+		assert.strictEqual(parseMarker('-=TODO 1 1 25043=-')?.errors.length, 1);
+		assert.strictEqual(parseMarker('-=TODO 1 1 done:tomorrow=-')?.errors.length, 1);
+		assert.strictEqual(parseMarker('-=TODO x 1 250101=-')?.errors.length, 1);
+	});
+
+	test('ignores lines without a marker', () => {
+		assert.strictEqual(parseMarker('Just some notes'), null);
+		assert.strictEqual(parseMarker('-=TODOS 1 1 250101=-'), null);
+	});
+
+	test('keeps created, due and completed dates apart', () => {
+		const marker = parseMarker('-=COMPLETE 2 1 250414 created:250401 done:250415=- Report')!;
+		assert.strictEqual(getCreatedDate(marker), '250401');
+		assert.strictEqual(getDueDate(marker), '250414');
+		assert.strictEqual(getCompletedDate(marker), '250415');
+	});
+
+	test('reads legacy COMPLETE dates as completion dates', () => {
+		const marker = parseMarker('-=COMPLETE 2 1 250415=- Report')!;
+		assert.strictEqual(getDueDate(marker), undefined);
+		assert.strictEqual(getCompletedDate(marker), '250415');
+	});
+
+	test('accepts ISO dates', () => {
+		const marker = parseMarker('-=TODO 1 1 2031-01-15 created:2030-12-31=- Far future')!;
+		assert.deepStrictEqual(marker.errors, []);
+		assert.strictEqual(getDueDate(marker), '2031-01-15');
+		assert.strictEqual(getCreatedDate(marker), '2030-12-31');
+	});
+
+	test('accepts due date phrases', () => {
+		const marker = parseMarker('-=TODO 2 1 next friday=- Send invoices')!;
+		assert.deepStrictEqual(marker.errors, []);
+		assert.strictEqual(marker.due, 'next friday');
+		assert.strictEqual(marker.text, 'Send invoices');
+		assert.strictEqual(serializeMarker(marker), '-=TODO 2 1 next friday=- Send invoices');
+		assert.strictEqual(parseMarker('-=TODO 2 1 next fortnight=-')?.errors.length, 1);
+		assert.strictEqual(parseMarker('- [ ] Send invoices due:in-3-days', { checkboxes: true })?.due, 'in-3-days');
+	});
+
+	test('reads a trailing task ID', () => {
+		const marker = parseMarker('-=TODO 1 1 250414=- Call plumber ^k3x9q2')!;
+		assert.strictEqual(marker.text, 'Call plumber');
+		assert.strictEqual(marker.id, 'k3x9q2');
+		assert.strictEqual(parseMarker('-=TODO 1 1 250414=- Raise 2^10')!.id, undefined);
+	});
+
+	test('escapes text that would read as marker syntax', () => {
+		const text = escapeTaskText('Check -=TODO 1 1=- lines, see ^k3x9q2');
+		assert.strictEqual(text, 'Check -\\=TODO 1 1=\\- lines, see \\^k3x9q2');
+		const marker = parseMarker(`-=TODO 1 1=- ${text}`)!;
+		assert.strictEqual(marker.text, text);
+		assert.strictEqual(marker.id, undefined);
+		assert.strictEqual(escapeTaskText('Raise 2^10 #maths'), 'Raise 2^10 #maths');
+	});
+
+	test('round-trips canonical lines', () => {
+		const lines = [
+			'-=TODO 3 2 250414=- Write report',
+			'- -=COMPLETE 1 1 250101=- Done thing',
+			'    -=ROLL 2 3 241231 note:keep=- Attributes survive',
+			'-=TODO 1 1 250101=-',
+			'-=COMPLETE 2 1 250414 created:250401 done:250415=- Separate dates',
+			'-=TODO 1 1=- No due date',
+			'-=TODO 1 1 2031-01-15 created:2030-12-31=- ISO dates',
+			'-=TODO 1 1 250101=- Has an ID ^k3x9q2',
+			'-=TODO 1 1 250101=- ^k3x9q2'
+		];
+		for (const line of lines) {
+			assert.strictEqual(serializeMarker(parseMarker(line)!), line);
+		}
+	});
+
+	test('extracts tags, contexts and projects from text', () => {
+		const tokens = parseTextTokens('Ship #release notes with @anna for +launch, mail bob@example.com #release');
+		assert.deepStrictEqual(tokens.tags, ['release']);
+		assert.deepStrictEqual(tokens.contexts, ['anna']);
+		assert.deepStrictEqual(tokens.projects, ['launch']);
+		assert.deepStrictEqual(tokens.waitingFor, []);
+	});
+
+	test('finds who a task is waiting for', () => {
+		assert.deepStrictEqual(parseTextTokens('Waiting for @sam. to reply').waitingFor, ['sam']);
+		assert.deepStrictEqual(parseTextTokens('#waiting Contract from @legal').waitingFor, ['legal']);
+	});
+
+	test('reads checkboxes only when enabled', () => {
+		const line = '- [ ] Call plumber p:2 due:2025-03-04 every:week ^k3x9q2';
+		assert.strictEqual(parseMarker(line), null);
+		const marker = parseMarker(line, { checkboxes: true })!;
+		assert.strictEqual(marker.style, 'checkbox');
+		assert.strictEqual(marker.status, 'TODO');
+		assert.strictEqual(marker.priority, 2);
+		assert.strictEqual(marker.difficulty, 1);
+		assert.strictEqual(marker.due, '2025-03-04');
+		assert.strictEqual(marker.text, 'Call plumber');
+		assert.strictEqual(marker.id, 'k3x9q2');
+		assert.strictEqual(serializeMarker(marker), line);
+		assert.strictEqual(parseMarker('  * [x] Done due:250101', { checkboxes: true })!.status, 'COMPLETE');
+		assert.strictEqual(parseMarker('- [ ] ', { checkboxes: true }), null);
+	});
+
+	test('converts between markers and checkboxes', () => {
+		const marker = parseMarker('    -=TODO 3 1 250414 created:250401=- Write report ^abc123')!;
+		const checkbox = convertMarkerStyle(marker, 'checkbox')!;
+		assert.strictEqual(serializeMarker(checkbox), '    - [ ] Write report p:3 due:250414 created:250401 ^abc123');
+		const back = parseMarker(serializeMarker(checkbox), { checkboxes: true })!;
+		assert.strictEqual(serializeMarker(convertMarkerStyle(back, 'marker')!), '    -=TODO 3 1 250414 created:250401=- Write report ^abc123');
+		assert.strictEqual(convertMarkerStyle(parseMarker('Note: -=TODO 1 1=- inline')!, 'checkbox'), null);
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { findTaskLine, getDescendants, normalizeDate, normalizeDueDate, parseTask, parseTasksInLines } from '../../tasks/taskModel';
+
+suite('Task Model', () => {
+	const lines = [
+		'# Notes for 2025-04-14',
+		'-=TODO 2 1 250414=- Launch',
+		'    -=COMPLETE 1 1 250414 done:250414=- Write post',
+		'    Some notes about the launch',
+		'    -=TODO 1 1 250415=- Record demo',
+		'        -=TODO 1 1 250415=- Pick a mic',
+		'Other text',
+		'    -=TODO 1 1 250416=- Not a subtask'
+	];
+	const tasks = parseTasksInLines(lines, '/Journal/2025-04-14.md');
+
+	test('links subtasks to the task they are indented under', () => {
+		assert.deepStrictEqual(tasks.map(task => task.parentLine), [undefined, 1, 1, 4, undefined]);
+	});
+
+	test('rolls up subtask progress', () => {
+		assert.deepStrictEqual(tasks[0].progress, { done: 1, total: 2 });
+		assert.deepStrictEqual(tasks[2].progress, { done: 0, total: 1 });
+		assert.strictEqual(tasks[1].progress, undefined);
+	});
+
+	test('collects descendants in document order', () => {
+		assert.deepStrictEqual(getDescendants(tasks[0], tasks).map(task => task.line), [2, 4, 5]);
+	});
+
+	test('finds a task again after its line has moved', () => {
+		const withId = parseTask('-=TODO 1 1 250414=- Call plumber ^k3x9q2', '/Journal/2025-04-14.md', 1)!;
+		const withoutId = parseTask('-=TODO 1 1 250414=- Call plumber', '/Journal/2025-04-14.md', 1)!;
+		const edited = [
+			'-=TODO 1 1 250414=- Call plumber ^other1',
+			'New line',
+			'-=TODO 1 1 250414=- Call plumber ^k3x9q2',
+			'-=TODO 1 1 250414=- Call plumber'
+		];
+		assert.strictEqual(findTaskLine(withId, edited), 2);
+		assert.strictEqual(findTaskLine(withoutId, edited), 0);
+		assert.strictEqual(findTaskLine(withId, edited.slice(0, 2)), undefined);
+		assert.strictEqual(findTaskLine(withoutId, ['Call plumber']), undefined);
+	});
+
+	test('reads due date phrases relative to the note', () => {
+		const path = '/Journal/2025/03-March/Week-10/2025-03-05.md';
+		assert.strictEqual(parseTask('-=TODO 1 1 tomorrow=- Call plumber', path, 0)!.dueDate, '2025-03-06');
+		assert.strictEqual(normalizeDueDate('-=TODO 1 1 next monday=- Call plumber', path, 'YYMMDD'), '-=TODO 1 1 250310=- Call plumber');
+		assert.strictEqual(normalizeDueDate('-=TODO 1 1 250310=- Call plumber', path, 'YYMMDD'), null);
+	});
+
+	test('leaves out due dates that do not exist', () => {
+		const task = parseTask('-=TODO 1 1 250431=- Call plumber', '/Journal/2025-03-05.md', 0);
+		assert.ok(task);
+		assert.strictEqual(task.dueDate, undefined);
+	});
+
+	test('reads marker dates as YYYY-MM-DD, without throwing for days that do not exist', () => {
+		const reference = new Date(2025, 2, 5);
+		assert.strictEqual(normalizeDate('250430', reference), '2025-04-30');
+		assert.strictEqual(normalizeDate('tomorrow', reference), '2025-03-06');
+		assert.strictEqual(normalizeDate('250431', reference), undefined);
+		assert.strictEqual(normalizeDate('', reference), undefined);
+	});
+});
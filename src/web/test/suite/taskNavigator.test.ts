@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { toggleTaskState } from '../../tasks/taskNavigator';
+import { TaskScanner } from '../../tasks/taskScanner';
+import { formatDateForTask } from '../../tasks/dateFormatter';
+
+suite('Task Navigator', () => {
+	const scanner = new TaskScanner();
+	const done = formatDateForTask(new Date());
+
+	async function openNote(lines: string[]): Promise<vscode.TextEditor> {
+		const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+		return vscode.window.showTextDocument(document);
+	}
+
+	suiteTeardown(() => scanner.dispose());
+	teardown(() => vscode.commands.executeCommand('workbench.action.closeAllEditors'));
+
+	test('completes the open tasks of a mixed selection in one undo step', async () => {
+		const editor = await openNote([
+			'-=TODO 1 1=- Call plumber ^plum01',
+			`-=COMPLETE 1 1 done:${done}=- Water plants ^plnt01`,
+			'-=TODO 1 1=- Pay rent ^rent01'
+		]);
+		editor.selection = new vscode.Selection(0, 0, 2, 5);
+		await toggleTaskState(scanner);
+		assert.deepStrictEqual(editor.document.getText().split('\n'), [
+			`-=COMPLETE 1 1 done:${done}=- Call plumber ^plum01`,
+			`-=COMPLETE 1 1 done:${done}=- Water plants ^plnt01`,
+			`-=COMPLETE 1 1 done:${done}=- Pay rent ^rent01`
+		]);
+
+		await vscode.commands.executeCommand('undo');
+		assert.strictEqual(editor.document.lineAt(0).text, '-=TODO 1 1=- Call plumber ^plum01');
+		assert.strictEqual(editor.document.lineAt(2).text, '-=TODO 1 1=- Pay rent ^rent01');
+	});
+
+	test('reopens a selection of completed tasks', async () => {
+		const editor = await openNote([
+			`-=COMPLETE 1 1 done:${done}=- Call plumber ^plum01`,
+			`-=COMPLETE 1 1 done:${done}=- Water plants ^plnt01`
+		]);
+		editor.selection = new vscode.Selection(0, 0, 1, 5);
+		await toggleTaskState(scanner);
+		assert.deepStrictEqual(editor.document.getText().split('\n'), [
+			'-=TODO 1 1=- Call plumber ^plum01',
+			'-=TODO 1 1=- Water plants ^plnt01'
+		]);
+	});
+
+	test('only turns the plain text of a mixed selection into tasks', async () => {
+		const editor = await openNote([
+			'-=TODO 1 1=- Call plumber ^plum01',
+			'Buy milk'
+		]);
+		editor.selection = new vscode.Selection(0, 0, 1, 5);
+		await toggleTaskState(scanner);
+		assert.strictEqual(editor.document.lineAt(0).text, '-=TODO 1 1=- Call plumber ^plum01');
+		assert.match(editor.document.lineAt(1).text, /^-=TODO 1 1 \d{6} created:\d{6}=- Buy milk \^\w{6}$/);
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { findTaskProblems } from '../../tasks/taskProblems';
+
+suite('Task Problems', () => {
+	const problems = (line: string) => findTaskProblems(line, { checkboxes: true }, '250410');
+	const applyFirstFix = (line: string) => {
+		const fix = problems(line)[0].fixes[0];
+		return line.substring(0, fix.range.start) + fix.newText + line.substring(fix.range.end);
+	};
+
+	test('finds markers the parser skips', () => {
+		assert.deepStrictEqual(problems('-=TOD0 1 1 250101=- Call plumber').map(problem => problem.code), ['unknown-status']);
+		assert.strictEqual(applyFirstFix('-=TOD0 1 1 250101=- Call plumber'), '-=TODO 1 1 250101=- Call plumber');
+		assert.strictEqual(applyFirstFix('- -=complete 2 1=- Pay rent'), '- -=COMPLETE 2 1=- Pay rent');
+		assert.strictEqual(applyFirstFix('-=TODO 2 1 250101 Call plumber'), '-=TODO 2 1 250101=- Call plumber');
+
+		assert.deepStrictEqual(problems('Plain text with -=DRAFT=- in it'), []);
+		assert.deepStrictEqual(problems('-=TODO 2 1 250101=- Call plumber'), []);
+	});
+
+	test('flags missing fields, bad levels and impossible dates', () => {
+		const line = '-=TODO 2 250431=- Call plumber';
+		assert.deepStrictEqual(problems(line).map(problem => problem.code), ['missing-field', 'invalid-date']);
+		assert.strictEqual(applyFirstFix(line), '-=TODO 2 1 250431=- Call plumber');
+		assert.deepStrictEqual(problems(line)[1].fixes.map(fix => fix.newText), ['250430']);
+
+		assert.strictEqual(applyFirstFix('-=TODO 5 1=- Call plumber'), '-=TODO 3 1=- Call plumber');
+		assert.strictEqual(applyFirstFix('- [ ] Call plumber p:0'), '- [ ] Call plumber p:1');
+		assert.deepStrictEqual(problems('-=TODO 1 1 created:2025-13-01=- Call plumber')[0].fixes, []);
+		assert.deepStrictEqual(problems('-=TODO x 1=- Call plumber').map(problem => problem.code), ['malformed-marker']);
+	});
+
+	test('adds a completion date to completed tasks without one', () => {
+		const [problem] = problems('-=COMPLETE 1 1=- Call plumber');
+		assert.strictEqual(problem.code, 'missing-done-date');
+		assert.strictEqual(problem.severity, 'warning');
+		assert.strictEqual(applyFirstFix('-=COMPLETE 1 1=- Call plumber'), '-=COMPLETE 1 1 done:250410=- Call plumber');
+
+		assert.deepStrictEqual(problems('-=COMPLETE 1 1 250301=- Call plumber'), []);
+		assert.deepStrictEqual(problems('- [x] Call plumber done:250301'), []);
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { describeRecurrence, getNextOccurrence, parseRecurrence } from '../../tasks/taskRecurrence';
+import { parseMarker } from '../../tasks/taskMarker';
+import { formatDateYYYYMMDD, parseNoteDate } from '../../tasks/dateFormatter';
+
+function next(rule: string, anchor: string, after: string = anchor): string {
+	const recurrence = parseRecurrence(rule);
+	assert.ok(recurrence, `${rule} should parse`);
+	return formatDateYYYYMMDD(getNextOccurrence(recurrence, parseNoteDate(anchor), parseNoteDate(after)));
+}
+
+suite('Task Recurrence', () => {
+	test('parses and describes rules', () => {
+		const cases: [string, string][] = [
+			['day', 'every day'],
+			['3d', 'every 3 days'],
+			['week', 'every week'],
+			['2w', 'every 2 weeks'],
+			['weekday', 'every weekday'],
+			['tue,thu', 'every Tuesday, Thursday'],
+			['month', 'monthly'],
+			['15th', 'monthly on the 15th'],
+			['year', 'yearly']
+		];
+		for (const [rule, description] of cases) {
+			assert.strictEqual(describeRecurrence(parseRecurrence(rule)!), description);
+		}
+		assert.strictEqual(parseRecurrence('fortnightly'), null);
+		assert.strictEqual(parseRecurrence('0d'), null);
+		assert.strictEqual(parseRecurrence('32nd'), null);
+	});
+
+	test('finds the next occurrence after the anchor', () => {
+		assert.strictEqual(next('week', '2025-03-03'), '2025-03-10');
+		assert.strictEqual(next('weekday', '2025-03-07'), '2025-03-10');
+		assert.strictEqual(next('tue,thu', '2025-03-04'), '2025-03-06');
+		assert.strictEqual(next('1st', '2025-03-15'), '2025-04-01');
+		assert.strictEqual(next('month', '2025-01-31'), '2025-02-28');
+		assert.strictEqual(next('year', '2024-02-29'), '2025-02-28');
+	});
+
+	test('skips occurrences that have already passed', () => {
+		assert.strictEqual(next('week', '2025-03-03', '2025-03-20'), '2025-03-24');
+		assert.strictEqual(next('3m', '2025-01-10', '2025-05-01'), '2025-07-10');
+	});
+
+	test('flags unknown rules in markers', () => {
+		assert.deepStrictEqual(parseMarker('-=TODO 1 1 250303 every:2w=- Water plants')!.errors, []);
+		const marker = parseMarker('-=TODO 1 1 250303 every:often=- Water plants')!;
+		assert.strictEqual(marker.errors.length, 1);
+		assert.match(marker.errors[0].message, /often/);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { parseTask } from '../../tasks/taskModel';
+import { filterTasksByQuery, parseTaskQuery, tasksToCsv, toExportedTasks } from '../../tasks/taskReport';
+
+suite('Task Report', () => {
+	const tasks = [
+		parseTask('-=TODO 3 1 250310=- Call plumber #house', '/ws/Journal/2025/03-March/Week-10/2025-03-03.md', 0)!,
+		parseTask('-=COMPLETE 1 2 done:250305=- Fix tap, "properly"', '/ws/Journal/2025/03-March/Week-10/2025-03-04.md', 0)!,
+		parseTask('-=ROLL 2 1 to:2025-03-05=- Pay rent', '/ws/Journal/2025/02-February/Week-09/2025-02-28.md', 0)!,
+		parseTask('-=TODO 2 1=- Read book', '/ws/Notes/reading.md', 0)!,
+		parseTask('-=TODO 1 1=- Old plan', '/ws/Archive/Journal/2025/03-March/plans.md', 0)!
+	];
+	const relativePath = (filePath: string) => filePath.replace(/^\/ws\//, '');
+
+	test('reads queries and reports bad terms', () => {
+		const { query, errors } = parseTaskQuery('status:todo,roll priority:>=2 from:2025-03-01 date:due folder:/Journal/2025/');
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(query, {
+			statuses: ['TODO', 'ROLL'],
+			minPriority: 2,
+			from: '2025-03-01',
+			dateField: 'due',
+			folder: 'Journal/2025'
+		});
+
+		assert.strictEqual(parseTaskQuery('status:later from:March owner:me').errors.length, 3);
+	});
+
+	test('filters by status, priority, folder and date', () => {
+		const texts = (text: string) => filterTasksByQuery(tasks, parseTaskQuery(text).query, relativePath).map(task => task.text);
+
+		assert.deepStrictEqual(texts(''), ['Call plumber #house', 'Fix tap, "properly"', 'Pay rent', 'Read book', 'Old plan']);
+		assert.deepStrictEqual(texts('status:todo priority:<=2'), ['Read book', 'Old plan']);
+		assert.deepStrictEqual(texts('folder:Journal/2025/03-March'), ['Call plumber #house', 'Fix tap, "properly"']);
+		assert.deepStrictEqual(texts('from:2025-03-01 to:2025-03-03'), ['Call plumber #house']);
+		assert.deepStrictEqual(texts('date:completed to:2025-03-31'), ['Fix tap, "properly"']);
+	});
+
+	test('writes every field to CSV with the note date', () => {
+		const [header, first, second] = tasksToCsv(toExportedTasks(tasks)).split('\r\n');
+		const columns = header.split(',');
+		assert.strictEqual(columns[0], 'noteDate');
+		for (const field of Object.keys(tasks[0])) {
+			assert.ok(columns.includes(field), `missing column ${field}`);
+		}
+		assert.ok(first.startsWith('2025-03-03,TODO,3,1,Call plumber #house,2025-03-10,,,house,'));
+		assert.ok(second.includes(',"Fix tap, ""properly""",'));
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { getOpenTasksInOrder, matchesFuzzy } from '../../tasks/taskSearch';
+import { note } from './fixtures';
+
+suite('Task Search', () => {
+	test('orders open tasks by due date, then priority', () => {
+		const tasks = note('2025-03-10', [
+			'-=TODO 1 1=- Someday',
+			'-=TODO 1 1 250314=- Low on Friday',
+			'-=COMPLETE 3 1 250311=- Done already',
+			'-=TODO 3 1 250314=- High on Friday',
+			'-=TODO 1 1 250312=- Wednesday'
+		]);
+		assert.deepStrictEqual(getOpenTasksInOrder(tasks).map(task => task.text), [
+			'Wednesday',
+			'High on Friday',
+			'Low on Friday',
+			'Someday'
+		]);
+	});
+
+	test('matches the characters of a query in order', () => {
+		assert.ok(matchesFuzzy('cpl', 'Call plumber'));
+		assert.ok(matchesFuzzy('PLUMB 0310', 'Call plumber 2025-03-10'));
+		assert.ok(matchesFuzzy('', 'Call plumber'));
+		assert.ok(!matchesFuzzy('plc', 'Call plumber'));
+		assert.ok(!matchesFuzzy('callx', 'Call plumber'));
+	});
+});
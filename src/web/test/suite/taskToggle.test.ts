@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { getToggleAction } from '../../tasks/taskToggle';
+
+suite('Task Toggle', () => {
+	test('turns plain text into tasks, even alongside tasks', () => {
+		assert.strictEqual(getToggleAction([null]), 'create');
+		assert.strictEqual(getToggleAction(['TODO', null, 'COMPLETE']), 'create');
+	});
+
+	test('completes open tasks when any are selected', () => {
+		assert.strictEqual(getToggleAction(['TODO']), 'complete');
+		assert.strictEqual(getToggleAction(['COMPLETE', 'TODO', 'ROLL']), 'complete');
+	});
+
+	test('reopens tasks when all of them are completed', () => {
+		assert.strictEqual(getToggleAction(['COMPLETE']), 'reopen');
+		assert.strictEqual(getToggleAction(['COMPLETE', 'ROLL', 'COMPLETE']), 'reopen');
+	});
+
+	test('leaves rolled tasks alone', () => {
+		assert.strictEqual(getToggleAction(['ROLL']), 'none');
+		assert.strictEqual(getToggleAction(['ROLL', 'ROLL']), 'none');
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { parseTask } from '../../tasks/taskModel';
+import { serializeMarker } from '../../tasks/taskMarker';
+import { formatTodoTxtLine, parseTodoTxtLine, todoTxtItemToMarker } from '../../tasks/todoTxt';
+
+suite('todo.txt', () => {
+	test('writes open and completed tasks', () => {
+		const open = parseTask('-=TODO 3 1 250304 created:250301=- Call plumber +house @phone', '/Journal/2025-03-01.md', 0)!;
+		assert.strictEqual(formatTodoTxtLine(open), '(A) 2025-03-01 Call plumber +house @phone due:2025-03-04');
+
+		const done = parseTask('-=COMPLETE 2 1 250304 created:250301 done:250305=- Fix tap', '/Journal/2025-03-01.md', 1)!;
+		assert.strictEqual(formatTodoTxtLine(done), 'x 2025-03-05 2025-03-01 Fix tap due:2025-03-04 pri:B');
+
+		const plain = parseTask('-=TODO 1 1=- Someday', '/Journal/2025-03-01.md', 2)!;
+		assert.strictEqual(formatTodoTxtLine(plain), 'Someday');
+	});
+
+	test('reads open and completed lines', () => {
+		assert.deepStrictEqual(parseTodoTxtLine('(B) 2025-03-01 Call plumber +house due:2025-03-04'), {
+			done: false,
+			priority: 2,
+			createdDate: '2025-03-01',
+			completedDate: undefined,
+			dueDate: '2025-03-04',
+			text: 'Call plumber +house'
+		});
+		assert.deepStrictEqual(parseTodoTxtLine('x 2025-03-05 2025-03-01 Fix tap pri:A'), {
+			done: true,
+			priority: 3,
+			createdDate: '2025-03-01',
+			completedDate: '2025-03-05',
+			dueDate: undefined,
+			text: 'Fix tap'
+		});
+		assert.strictEqual(parseTodoTxtLine('   '), null);
+	});
+
+	test('turns items into markers', () => {
+		const done = parseTodoTxtLine('x 2025-03-05 2025-03-01 Fix tap due:2025-03-04')!;
+		assert.strictEqual(
+			serializeMarker(todoTxtItemToMarker(done, 'YYMMDD')),
+			'-=COMPLETE 1 1 250304 created:250301 done:250305=- Fix tap'
+		);
+		const open = parseTodoTxtLine('(A) Call plumber @phone')!;
+		assert.strictEqual(serializeMarker(todoTxtItemToMarker(open, 'YYYY-MM-DD')), '-=TODO 3 1=- Call plumber @phone');
+		const odd = parseTodoTxtLine('Read -=TODO=- docs ^later')!;
+		assert.strictEqual(serializeMarker(todoTxtItemToMarker(odd, 'YYMMDD')), '-=TODO 1 1=- Read -\\=TODO=\\- docs \\^later');
+	});
+
+	test('leaves out dates that do not exist', () => {
+		const item = parseTodoTxtLine('x 2025-02-30 2025-02-01 Fix tap due:2025-02-29')!;
+		assert.strictEqual(serializeMarker(todoTxtItemToMarker(item, 'YYMMDD')), '-=COMPLETE 1 1 created:250201=- Fix tap');
+	});
+});
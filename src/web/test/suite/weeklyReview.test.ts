@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { parseTask } from '../../tasks/taskModel';
+import { buildWeeklyReview, fillTemplate, getRelativeLink, getReviewWeek } from '../../tasks/weeklyReview';
+
+suite('Weekly Review', () => {
+	test('finds the ISO week of a date', () => {
+		const week = getReviewWeek('2025-03-06');
+		assert.strictEqual(week.week, 10);
+		assert.strictEqual(week.start, '2025-03-03');
+		assert.strictEqual(week.end, '2025-03-09');
+
+		// 29 December 2025 starts week 1 of 2026
+		assert.deepStrictEqual([getReviewWeek('2025-12-31').week, getReviewWeek('2025-12-31').year], [1, 2026]);
+	});
+
+	test('summarises completed, rolled and overdue tasks', () => {
+		const tasks = [
+			parseTask('-=COMPLETE 1 1 done:250304=- Fix tap', '/J/Week-10/2025-03-03.md', 0)!,
+			parseTask('-=COMPLETE 1 1=- Post letter', '/J/Week-10/2025-03-05.md', 0)!,
+			parseTask('-=ROLL 1 1 to:2025-03-03=- Pay rent', '/J/Week-09/2025-02-28.md', 0)!,
+			parseTask('-=ROLL 1 1 from:2025-02-28 to:2025-03-04=- Pay rent', '/J/Week-10/2025-03-03.md', 1)!,
+			parseTask('-=TODO 1 1 from:2025-03-03=- Pay rent', '/J/Week-10/2025-03-04.md', 0)!,
+			parseTask('-=TODO 2 1 250305=- Call plumber', '/J/Week-10/2025-03-03.md', 2)!,
+			parseTask('-=TODO 2 1 250320=- Book holiday', '/J/Week-10/2025-03-03.md', 3)!
+		];
+		const values = buildWeeklyReview(
+			getReviewWeek('2025-03-03'),
+			tasks,
+			new Map([['2025-03-03', '2025-03-03.md']]),
+			'2025-03-12'
+		);
+
+		assert.strictEqual(values.WEEK, '10');
+		assert.strictEqual(values.DAILY_NOTES, '- [Monday 3 March](2025-03-03.md)');
+		assert.strictEqual(values.COMPLETED, '### Tuesday 4 March\n- Fix tap\n\n### Wednesday 5 March\n- Post letter');
+		assert.strictEqual(values.ROLLED, '- Pay rent (rolled 2 times)');
+		assert.strictEqual(values.OVERDUE, '- Call plumber (due 5 Mar)');
+	});
+
+	test('fills templates and links between folders', () => {
+		assert.strictEqual(fillTemplate('# Week {{WEEK}} {{OTHER}}', { WEEK: '10' }), '# Week 10 {{OTHER}}');
+		assert.strictEqual(
+			getRelativeLink('/ws/Journal/2025/03-March/Week-10', '/ws/Journal/2025/02-February/Week-10/2025-02-28.md'),
+			'../../02-February/Week-10/2025-02-28.md'
+		);
+	});
+});